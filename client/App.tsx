@@ -4,16 +4,25 @@
  * This is the main application component that sets up the overall structure including:
  * - Global navigation component
  * - React Router configuration with routes
- * - Suspense wrapper for lazy loading components
+ * - Suspense wrapper for lazy loading components and `useSuspenseQuery` data
  * - Loading fallback UI for route transitions
  * - Main layout structure with background styling
+ * - Public login/register pages; wrap private routes in <ProtectedRoute>
+ * - "New version available" prompt (toasts) and recovery from lazy chunks
+ *   removed by a newer deployment
  */
 
 import React, { Suspense } from "react";
 import { Routes, Route } from "react-router-dom";
 
 import HomePage from "@/pages/home";
+import LoginPage from "@/pages/login";
+import RegisterPage from "@/pages/register";
 import NotFoundPage from "@/pages/not-found";
+import { RedirectPaths } from "@/constants/redirects";
+import { Toaster } from "@/components/ui/sonner";
+import { ChunkErrorBoundary } from "@/components/version/chunk-error-boundary";
+import { VersionWatcher } from "@/components/version/version-watcher";
 
 /**
  * LoadingFallback Component
@@ -46,20 +55,39 @@ const LoadingFallback: React.FC = () => (
  * Architecture:
  * - Global navigation bar at the top
  * - Main content area with route-based rendering
- * - Suspense boundary for code splitting and lazy loading
+ * - Suspense boundary for code splitting, lazy loading and data loaded with
+ *   `useSuspenseQuery` (`@/lib/query`), inside an error boundary that offers
+ *   a reload when a chunk fails to load
+ * - Toaster for notifications, including failed data requests
  * - Error boundary via catch-all route to 404 page
+ *
+ * Routes that require a signed-in user go inside a `<ProtectedRoute>` layout
+ * route; unauthenticated visitors are sent to the login page and returned
+ * afterwards:
+ *
+ * ```tsx
+ * <Route element={<ProtectedRoute />}>
+ *   <Route path="/dashboard" element={<DashboardPage />} />
+ * </Route>
+ * ```
  */
 const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-background">
       <main className="flex-1">
-        <Suspense fallback={<LoadingFallback />}>
-          <Routes>
-            <Route path="/" element={<HomePage />} />
-            <Route path="*" element={<NotFoundPage />} />
-          </Routes>
-        </Suspense>
+        <ChunkErrorBoundary>
+          <Suspense fallback={<LoadingFallback />}>
+            <Routes>
+              <Route path="/" element={<HomePage />} />
+              <Route path={RedirectPaths.toLogin} element={<LoginPage />} />
+              <Route path={RedirectPaths.toRegister} element={<RegisterPage />} />
+              <Route path="*" element={<NotFoundPage />} />
+            </Routes>
+          </Suspense>
+        </ChunkErrorBoundary>
       </main>
+      <Toaster />
+      <VersionWatcher />
     </div>
   );
 };
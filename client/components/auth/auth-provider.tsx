@@ -0,0 +1,154 @@
+/**
+ * @fileoverview AuthProvider component and useAuth hook - Client-side session state
+ *
+ * Keeps track of the signed-in user for the whole application. On mount it asks
+ * the server who is signed in (`GET /api/auth/me`); afterwards the login,
+ * register and logout actions keep the state in sync with the session cookie.
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+
+import { api, ApiError } from "@/lib/api";
+import { resetQueries } from "@/lib/query";
+import { reconnectRealtime } from "@/lib/realtime";
+import { RedirectPaths } from "@/constants/redirects";
+import type { LoginInput, PublicUser, RegisterInput } from "../../../shared/schema";
+
+/**
+ * Session status
+ *
+ * - `loading`: the initial `/api/auth/me` request is in flight
+ * - `authenticated`: `user` is set
+ * - `unauthenticated`: nobody is signed in
+ */
+export type AuthStatus = "loading" | "authenticated" | "unauthenticated";
+
+export interface AuthContextValue {
+  user: PublicUser | null;
+  status: AuthStatus;
+  /** Sign in; rejects with an `ApiError` on invalid credentials */
+  login: (credentials: LoginInput) => Promise<PublicUser>;
+  /** Create an account and sign in; rejects with an `ApiError` on invalid input */
+  register: (details: RegisterInput) => Promise<PublicUser>;
+  /** Sign out and navigate to `RedirectPaths.afterLogout` */
+  logout: () => Promise<void>;
+  /** Re-read the session from the server */
+  refresh: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * AuthProvider Component
+ *
+ * Provides the session state to `useAuth()`. Must be rendered inside the
+ * router, since logging out navigates to `RedirectPaths.afterLogout`.
+ *
+ * @example
+ * ```tsx
+ * <BrowserRouter>
+ *   <AuthProvider>
+ *     <App />
+ *   </AuthProvider>
+ * </BrowserRouter>
+ * ```
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [status, setStatus] = useState<AuthStatus>("loading");
+
+  const applyUser = useCallback((nextUser: PublicUser | null) => {
+    setUser(nextUser);
+    setStatus(nextUser ? "authenticated" : "unauthenticated");
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      applyUser(await api.authMe());
+    } catch (error) {
+      // 401 simply means nobody is signed in
+      if (!(error instanceof ApiError && error.status === 401)) {
+        console.error("❌ Failed to load the current session:", error);
+      }
+      applyUser(null);
+    }
+  }, [applyUser]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // The realtime connection is authenticated when it opens; reopen it for the new user
+  const userId = user?.id;
+  useEffect(() => {
+    reconnectRealtime();
+  }, [userId]);
+
+  // Cached query data belongs to the user it was fetched for; drop it when
+  // someone else signs in or out (but not when the initial session resolves)
+  const cachedFor = useRef<number | null | undefined>(undefined);
+  useEffect(() => {
+    if (status === "loading") return;
+
+    const current = userId ?? null;
+    if (cachedFor.current !== undefined && cachedFor.current !== current) {
+      resetQueries();
+    }
+    cachedFor.current = current;
+  }, [status, userId]);
+
+  const login = useCallback(
+    async (credentials: LoginInput) => {
+      const signedIn = await api.authLogin({ body: credentials });
+      applyUser(signedIn);
+      return signedIn;
+    },
+    [applyUser]
+  );
+
+  const register = useCallback(
+    async (details: RegisterInput) => {
+      const created = await api.authRegister({ body: details });
+      applyUser(created);
+      return created;
+    },
+    [applyUser]
+  );
+
+  const logout = useCallback(async () => {
+    await api.authLogout();
+    applyUser(null);
+    navigate(RedirectPaths.afterLogout, { replace: true });
+  }, [applyUser, navigate]);
+
+  const value = useMemo(
+    () => ({ user, status, login, register, logout, refresh }),
+    [user, status, login, register, logout, refresh]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+/**
+ * useAuth Hook
+ *
+ * @returns {AuthContextValue} The current session and auth actions
+ *
+ * @example
+ * ```tsx
+ * const { user, logout } = useAuth();
+ *
+ * return <Button onClick={logout}>Sign out {user?.name}</Button>;
+ * ```
+ */
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+
+  if (!context) {
+    throw new Error("useAuth must be used within <AuthProvider>");
+  }
+
+  return context;
+}
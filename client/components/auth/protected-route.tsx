@@ -0,0 +1,59 @@
+/**
+ * @fileoverview ProtectedRoute component - Restricts routes to signed-in users
+ *
+ * Unauthenticated visitors are redirected to the login page and brought back
+ * to the URL they asked for once they sign in.
+ */
+
+import React from "react";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+
+import { useAuth } from "@/components/auth/auth-provider";
+import { loginPathFor } from "@/components/auth/redirect-target";
+
+/**
+ * Spinner shown while the initial session check is in flight
+ */
+const SessionFallback: React.FC = () => (
+  <div className="min-h-screen bg-background flex items-center justify-center">
+    <div className="flex items-center gap-2 text-muted-foreground">
+      <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+      Checking your session...
+    </div>
+  </div>
+);
+
+/**
+ * ProtectedRoute Component
+ *
+ * Renders its children (or the nested routes through `<Outlet />`) only for
+ * signed-in users.
+ *
+ * @example
+ * ```tsx
+ * // As a layout route guarding several pages
+ * <Route element={<ProtectedRoute />}>
+ *   <Route path="/dashboard" element={<DashboardPage />} />
+ *   <Route path="/settings" element={<SettingsPage />} />
+ * </Route>
+ *
+ * // Around a single element
+ * <Route path="/account" element={<ProtectedRoute><AccountPage /></ProtectedRoute>} />
+ * ```
+ */
+const ProtectedRoute: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const { status } = useAuth();
+  const location = useLocation();
+
+  if (status === "loading") {
+    return <SessionFallback />;
+  }
+
+  if (status === "unauthenticated") {
+    return <Navigate to={loginPathFor(location)} replace />;
+  }
+
+  return children ? <>{children}</> : <Outlet />;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Helpers for returning to the original URL after signing in
+ *
+ * `<ProtectedRoute>` sends unauthenticated visitors to the login page with the
+ * URL they asked for in the `redirectTo` query parameter; the login and
+ * register pages read it back once the user is signed in.
+ */
+
+import type { Location } from "react-router-dom";
+
+import { RedirectPaths } from "@/constants/redirects";
+
+export const REDIRECT_PARAM = "redirectTo";
+
+/**
+ * Build the login URL that returns to `location` afterwards
+ *
+ * @param location - Location the visitor tried to open
+ * @returns {string} Login path with the `redirectTo` parameter
+ */
+export function loginPathFor(location: Pick<Location, "pathname" | "search" | "hash">): string {
+  const target = `${location.pathname}${location.search}${location.hash}`;
+  return `${RedirectPaths.toLogin}?${new URLSearchParams({ [REDIRECT_PARAM]: target })}`;
+}
+
+/**
+ * Read the post-login destination from a query string
+ *
+ * Only same-origin paths are accepted, so the parameter cannot be abused
+ * to redirect users to another site.
+ *
+ * @param searchParams - Query parameters of the login or register page
+ * @returns {string} Safe path to navigate to
+ */
+export function readRedirectTarget(searchParams: URLSearchParams): string {
+  const target = searchParams.get(REDIRECT_PARAM);
+
+  if (!target || !target.startsWith("/") || target.startsWith("//") || target.startsWith("/\\")) {
+    return RedirectPaths.afterLogin;
+  }
+
+  return target;
+}
@@ -0,0 +1,417 @@
+/**
+ * @fileoverview AutoForm component - Complete forms generated from zod object schemas
+ *
+ * Renders one field per schema property with the `form.tsx` primitives,
+ * choosing the widget from the property's type and checks: text inputs,
+ * textareas for long strings, number inputs or sliders for bounded ranges,
+ * checkboxes, selects for enums and date inputs. Validation runs through
+ * `zodResolver`, and server validation errors land on the matching fields.
+ */
+
+import React, { useMemo } from "react";
+import { useForm, type DefaultValues, type FieldValues, type Resolver } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { z } from "zod";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { ApiError } from "@/lib/api";
+import { isValidationProblem, setServerErrors } from "@/lib/form-errors";
+import { cn } from "@/lib/utils";
+import { describeSchema, humanize, type SchemaField } from "./schema-fields";
+
+export type AutoFormWidget = "input" | "password" | "textarea" | "number" | "slider" | "checkbox" | "select" | "date";
+
+/**
+ * Props handed to a custom field renderer, spread-compatible with inputs
+ */
+export interface AutoFormFieldProps {
+  name: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  onBlur: () => void;
+  disabled?: boolean;
+}
+
+export interface AutoFormFieldConfig {
+  label?: React.ReactNode;
+  description?: React.ReactNode;
+  placeholder?: string;
+  /** Widget to render instead of the one derived from the schema */
+  widget?: AutoFormWidget;
+  /** Render the control yourself, e.g. for arrays or JSON */
+  render?: (field: AutoFormFieldProps) => React.ReactNode;
+  /** Labels of enum options, keyed by value */
+  optionLabels?: Record<string, React.ReactNode>;
+  /** Position among the fields; fields without one keep schema order after those with one */
+  order?: number;
+  /** Leave the field out of the form; it keeps its default value */
+  hidden?: boolean;
+  /** Classes of the field's grid cell, e.g. `sm:col-span-2` */
+  className?: string;
+  /** Passed to the underlying input, e.g. `autoComplete` */
+  inputProps?: React.InputHTMLAttributes<HTMLInputElement>;
+}
+
+export interface AutoFormProps<TSchema extends z.ZodObject> {
+  schema: TSchema;
+  /** Called with the parsed values; rejections with a validation problem are shown on the fields */
+  onSubmit: (values: z.output<TSchema>) => void | Promise<void>;
+  /** Initial values, e.g. the row being edited */
+  defaultValues?: Partial<z.input<TSchema>>;
+  /** Per-field labels, widgets, order and layout */
+  fields?: { [K in keyof z.input<TSchema> & string]?: AutoFormFieldConfig };
+  /** Grid columns on wider screens (default: 1) */
+  columns?: 1 | 2 | 3;
+  /** Label of the submit button (default: "Save") */
+  submitLabel?: React.ReactNode;
+  /** Extra actions next to the submit button, e.g. a cancel button */
+  children?: React.ReactNode;
+  disabled?: boolean;
+  className?: string;
+}
+
+const GRID_COLUMNS = {
+  1: "grid-cols-1",
+  2: "grid-cols-1 sm:grid-cols-2",
+  3: "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3",
+};
+
+// Bounded ranges up to this many steps get a slider instead of a number input
+const MAX_SLIDER_STEPS = 100;
+
+// Longer strings get a textarea
+const MAX_INPUT_LENGTH = 255;
+
+function defaultWidget(field: SchemaField): AutoFormWidget | undefined {
+  switch (field.kind) {
+    case "string":
+      return field.maxLength !== undefined && field.maxLength > MAX_INPUT_LENGTH ? "textarea" : "input";
+    case "number": {
+      const { minimum, maximum } = field;
+      const bounded = minimum !== undefined && maximum !== undefined;
+      return bounded && field.integer && maximum - minimum <= MAX_SLIDER_STEPS ? "slider" : "number";
+    }
+    case "boolean":
+      return "checkbox";
+    case "enum":
+      return "select";
+    case "date":
+      return "date";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Value of an empty input: `null` for nullable fields, `undefined` for
+ * optional ones and `""` otherwise, so required strings report "too short"
+ */
+function emptyValue(field: SchemaField) {
+  if (field.nullable) return null;
+  if (!field.required) return undefined;
+  return field.kind === "string" ? "" : undefined;
+}
+
+function initialValue(field: SchemaField) {
+  if (field.defaultValue !== undefined) return field.defaultValue;
+  if (field.kind === "boolean") return false;
+  if (field.kind === "string" && field.required) return "";
+  return field.nullable ? null : undefined;
+}
+
+/**
+ * `datetime-local` value for a date, in the browser's time zone
+ */
+function toDateTimeLocal(value: unknown) {
+  if (!(value instanceof Date) || Number.isNaN(value.getTime())) return "";
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+interface FieldControlProps {
+  field: SchemaField;
+  widget: AutoFormWidget;
+  config: AutoFormFieldConfig;
+  control: AutoFormFieldProps;
+}
+
+/**
+ * FieldControl Component
+ *
+ * The input of one field, converting between the form value and what the
+ * widget displays.
+ */
+const FieldControl: React.FC<FieldControlProps> = ({ field, widget, config, control }) => {
+  const { value, onChange, onBlur, name, disabled } = control;
+  const common = { name, onBlur, disabled, placeholder: config.placeholder };
+
+  switch (widget) {
+    case "textarea":
+      return (
+        <Textarea
+          {...common}
+          maxLength={field.maxLength}
+          value={(value as string | null | undefined) ?? ""}
+          onChange={(event) => onChange(event.target.value === "" ? emptyValue(field) : event.target.value)}
+        />
+      );
+
+    case "number":
+      return (
+        <Input
+          {...common}
+          {...config.inputProps}
+          type="number"
+          inputMode={field.integer ? "numeric" : "decimal"}
+          min={field.minimum}
+          max={field.maximum}
+          step={field.integer ? 1 : "any"}
+          value={typeof value === "number" ? value : ""}
+          onChange={(event) => onChange(event.target.value === "" ? emptyValue(field) : event.target.valueAsNumber)}
+        />
+      );
+
+    case "slider": {
+      const minimum = field.minimum ?? 0;
+      // Unset optional values sit at the minimum but are not shown as chosen
+      const isSet = typeof value === "number";
+      const current = isSet ? value : minimum;
+
+      return (
+        <div className="flex items-center gap-4">
+          <Slider
+            name={name}
+            disabled={disabled}
+            min={minimum}
+            max={field.maximum ?? 100}
+            step={1}
+            value={[current]}
+            onValueChange={([next]) => onChange(next)}
+            onBlur={onBlur}
+          />
+          <span className="w-10 text-right text-sm tabular-nums text-muted-foreground">{isSet ? current : "–"}</span>
+        </div>
+      );
+    }
+
+    case "checkbox":
+      return (
+        <Checkbox
+          name={name}
+          disabled={disabled}
+          checked={value === true}
+          onCheckedChange={(checked) => onChange(checked === true)}
+          onBlur={onBlur}
+        />
+      );
+
+    case "select":
+      return (
+        <Select
+          name={name}
+          disabled={disabled}
+          value={typeof value === "string" ? value : ""}
+          onValueChange={(next) => onChange(next)}
+        >
+          <SelectTrigger onBlur={onBlur}>
+            <SelectValue placeholder={config.placeholder ?? "Select..."} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {config.optionLabels?.[option] ?? humanize(option)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case "date":
+      return (
+        <Input
+          {...common}
+          {...config.inputProps}
+          type="datetime-local"
+          value={toDateTimeLocal(value)}
+          onChange={(event) => onChange(event.target.value === "" ? emptyValue(field) : new Date(event.target.value))}
+        />
+      );
+
+    default: {
+      const type = widget === "password" ? "password" : field.format === "email" ? "email" : field.format === "url" ? "url" : "text";
+
+      return (
+        <Input
+          {...common}
+          type={type}
+          autoComplete={widget === "password" ? "new-password" : field.format === "email" ? "email" : undefined}
+          {...config.inputProps}
+          maxLength={field.maxLength}
+          value={(value as string | null | undefined) ?? ""}
+          onChange={(event) => onChange(event.target.value === "" ? emptyValue(field) : event.target.value)}
+        />
+      );
+    }
+  }
+};
+
+/**
+ * AutoForm Component
+ *
+ * Properties the form cannot edit directly (arrays, objects, JSON) are only
+ * rendered when a `render` override is given. Pick or omit the properties a
+ * user should not set (ids, timestamps) from the schema before passing it.
+ *
+ * @example
+ * ```tsx
+ * const postFormSchema = insertPostSchema.omit({ userId: true });
+ *
+ * <AutoForm
+ *   schema={postFormSchema}
+ *   columns={2}
+ *   fields={{
+ *     title: { label: "Headline", order: 0, className: "sm:col-span-2" },
+ *     body: { widget: "textarea", className: "sm:col-span-2" },
+ *     status: { optionLabels: { draft: "Draft", published: "Published" } },
+ *   }}
+ *   submitLabel="Publish"
+ *   onSubmit={(values) => api.createPost({ body: values })}
+ * />
+ * ```
+ */
+export function AutoForm<TSchema extends z.ZodObject>({
+  schema,
+  onSubmit,
+  defaultValues,
+  fields: overrides = {},
+  columns = 1,
+  submitLabel = "Save",
+  children,
+  disabled = false,
+  className,
+}: AutoFormProps<TSchema>) {
+  const configs = overrides as Record<string, AutoFormFieldConfig | undefined>;
+  const described = useMemo(() => describeSchema(schema), [schema]);
+
+  const ordered = described
+    .map((field, index) => ({ field, index, order: configs[field.name]?.order ?? Number.POSITIVE_INFINITY }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map(({ field }) => field);
+
+  const form = useForm<FieldValues>({
+    // The resolver's types cannot follow a generic schema; the values are z.output<TSchema>
+    resolver: zodResolver(schema as z.ZodObject) as Resolver<FieldValues>,
+    defaultValues: {
+      ...Object.fromEntries(described.map((field) => [field.name, initialValue(field)])),
+      ...defaultValues,
+    } as DefaultValues<FieldValues>,
+  });
+
+  const handleSubmit = form.handleSubmit(async (values) => {
+    try {
+      await onSubmit(values as z.output<TSchema>);
+    } catch (error) {
+      if (error instanceof ApiError && isValidationProblem(error.problem)) {
+        setServerErrors(form.setError, error.problem, described.map((field) => field.name));
+      } else {
+        form.setError("root.server", {
+          type: "server",
+          message: error instanceof Error ? error.message : "Something went wrong",
+        });
+      }
+    }
+  });
+
+  const serverError = form.formState.errors.root?.server?.message;
+  const isDisabled = disabled || form.formState.isSubmitting;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={handleSubmit} noValidate className={cn("space-y-6", className)}>
+        {serverError && (
+          <Alert variant="destructive">
+            <AlertDescription>{serverError}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className={cn("grid gap-4", GRID_COLUMNS[columns])}>
+          {ordered.map((field) => {
+            const config = configs[field.name] ?? {};
+            const widget = config.widget ?? defaultWidget(field);
+
+            if (config.hidden || (!widget && !config.render)) return null;
+
+            const label = config.label ?? humanize(field.name);
+            const description = config.description ?? field.description;
+
+            return (
+              <FormField
+                key={field.name}
+                control={form.control}
+                name={field.name}
+                render={({ field: control }) => {
+                  const props: AutoFormFieldProps = {
+                    name: control.name,
+                    value: control.value,
+                    onChange: control.onChange,
+                    onBlur: control.onBlur,
+                    disabled: isDisabled,
+                  };
+                  const input = config.render
+                    ? config.render(props)
+                    : <FieldControl field={field} widget={widget!} config={config} control={props} />;
+
+                  if (widget === "checkbox" && !config.render) {
+                    return (
+                      <FormItem className={cn("flex flex-row items-start space-x-3 space-y-0", config.className)}>
+                        <FormControl>{input}</FormControl>
+                        <div className="space-y-1 leading-none">
+                          <FormLabel>{label}</FormLabel>
+                          {description && <FormDescription>{description}</FormDescription>}
+                          <FormMessage />
+                        </div>
+                      </FormItem>
+                    );
+                  }
+
+                  return (
+                    <FormItem className={config.className}>
+                      <FormLabel>
+                        {label}
+                        {!field.required && <span className="ml-1 font-normal text-muted-foreground">(optional)</span>}
+                      </FormLabel>
+                      <FormControl>{input}</FormControl>
+                      {description && <FormDescription>{description}</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  );
+                }}
+              />
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button type="submit" disabled={isDisabled}>
+            {submitLabel}
+          </Button>
+          {children}
+        </div>
+      </form>
+    </Form>
+  );
+}
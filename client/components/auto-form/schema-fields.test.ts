@@ -0,0 +1,107 @@
+import { integer, pgTable, serial, text, timestamp, varchar } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { describeSchema, humanize } from "./schema-fields";
+
+const field = (schema: z.ZodObject, name: string) => describeSchema(schema).find((candidate) => candidate.name === name);
+
+describe("describeSchema", () => {
+  it("lists the properties in declaration order", () => {
+    const schema = z.object({ b: z.string(), a: z.number(), c: z.boolean() });
+
+    expect(describeSchema(schema).map(({ name, kind }) => [name, kind])).toEqual([
+      ["b", "string"],
+      ["a", "number"],
+      ["c", "boolean"],
+    ]);
+  });
+
+  it("tells required, optional, nullable and defaulted fields apart", () => {
+    const schema = z.object({
+      required: z.string(),
+      optional: z.string().optional(),
+      nullable: z.string().nullable(),
+      defaulted: z.number().default(5),
+    });
+
+    expect(field(schema, "required")).toMatchObject({ required: true, nullable: false, defaultValue: undefined });
+    expect(field(schema, "optional")).toMatchObject({ required: false, nullable: false });
+    expect(field(schema, "nullable")).toMatchObject({ required: false, nullable: true });
+    expect(field(schema, "defaulted")).toMatchObject({ kind: "number", required: false, defaultValue: 5 });
+  });
+
+  it("reads string lengths and formats", () => {
+    const schema = z.object({
+      bio: z.string().max(1000),
+      email: z.email(),
+      website: z.string().trim().pipe(z.url()).optional(),
+    });
+
+    expect(field(schema, "bio")).toMatchObject({ kind: "string", maxLength: 1000, format: undefined });
+    expect(field(schema, "email")).toMatchObject({ kind: "string", format: "email" });
+    expect(field(schema, "website")).toMatchObject({ kind: "string", format: "url", required: false });
+  });
+
+  it("reads number ranges and whole numbers", () => {
+    const schema = z.object({
+      rating: z.number().int().min(1).max(5),
+      price: z.number().positive(),
+    });
+
+    expect(field(schema, "rating")).toMatchObject({ integer: true, minimum: 1, maximum: 5 });
+    expect(field(schema, "price")).toMatchObject({ integer: false, maximum: undefined });
+  });
+
+  it("lists enum options", () => {
+    const schema = z.object({ status: z.enum(["draft", "published"]).default("draft") });
+
+    expect(field(schema, "status")).toMatchObject({ kind: "enum", options: ["draft", "published"], defaultValue: "draft" });
+  });
+
+  it("leaves types forms cannot edit without a kind", () => {
+    const schema = z.object({ tags: z.array(z.string()), meta: z.object({ a: z.string() }) });
+
+    expect(describeSchema(schema).map(({ kind }) => kind)).toEqual([undefined, undefined]);
+  });
+
+  it("keeps descriptions, also from inside wrappers", () => {
+    const schema = z.object({
+      outer: z.string().optional().describe("Outer"),
+      inner: z.string().describe("Inner").optional(),
+    });
+
+    expect(field(schema, "outer")?.description).toBe("Outer");
+    expect(field(schema, "inner")?.description).toBe("Inner");
+  });
+
+  it("understands drizzle-zod insert schemas", () => {
+    const posts = pgTable("posts", {
+      id: serial("id").primaryKey(),
+      title: varchar("title", { length: 120 }).notNull(),
+      body: text("body"),
+      views: integer("views").notNull().default(0),
+      createdAt: timestamp("created_at").notNull().defaultNow(),
+    });
+
+    const fields = describeSchema(createInsertSchema(posts));
+
+    expect(fields.map(({ name }) => name)).toEqual(["id", "title", "body", "views", "createdAt"]);
+    expect(fields.find(({ name }) => name === "title")).toMatchObject({ kind: "string", required: true, maxLength: 120 });
+    expect(fields.find(({ name }) => name === "body")).toMatchObject({ kind: "string", required: false, nullable: true });
+    expect(fields.find(({ name }) => name === "views")).toMatchObject({ kind: "number", integer: true, required: false });
+    expect(fields.find(({ name }) => name === "createdAt")).toMatchObject({ kind: "date", required: false });
+  });
+});
+
+describe("humanize", () => {
+  it.each([
+    ["createdAt", "Created at"],
+    ["first_name", "First name"],
+    ["api-key", "Api key"],
+    ["userID", "User id"],
+    ["title", "Title"],
+  ])("turns %s into %s", (name, label) => {
+    expect(humanize(name)).toBe(label);
+  });
+});
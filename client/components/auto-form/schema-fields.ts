@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Reads the fields of a zod object schema for `<AutoForm>`
+ *
+ * Each property is unwrapped (optional, nullable, default, pipe, ...) down to
+ * its base type, and the checks zod records on it (length, range, format) are
+ * collected, so the form can pick a widget and input attributes per field.
+ */
+
+import type { z } from "zod";
+
+export type FieldKind = "string" | "number" | "boolean" | "enum" | "date";
+
+export interface SchemaField {
+  name: string;
+  /** `undefined` for types forms cannot edit directly (arrays, objects, JSON) */
+  kind: FieldKind | undefined;
+  /** Neither optional, nullable nor defaulted */
+  required: boolean;
+  /** Empty input is submitted as `null` rather than `undefined` */
+  nullable: boolean;
+  defaultValue: unknown;
+  /** Choices of an enum */
+  options: string[];
+  /** Whole numbers only */
+  integer: boolean;
+  /** Range of a number */
+  minimum?: number;
+  maximum?: number;
+  /** Longest accepted string */
+  maxLength?: number;
+  /** String format such as `email` or `url` */
+  format?: string;
+  description?: string;
+}
+
+type SchemaType = z.core.$ZodType;
+
+// What zod's checks record on a schema; for strings the bounds are lengths
+interface CheckBag {
+  minimum?: number;
+  maximum?: number;
+  format?: string;
+}
+
+// Formats zod records for `.int()` and the integer column types of drizzle-zod
+const INTEGER_FORMATS = new Set(["safeint", "int32", "uint32"]);
+
+/**
+ * Describe every property of an object schema, in declaration order
+ *
+ * @param schema - Object schema, e.g. a drizzle-zod insert schema
+ */
+export function describeSchema(schema: z.ZodObject): SchemaField[] {
+  return Object.entries(schema.shape).map(([name, property]) => describeProperty(name, property as SchemaType));
+}
+
+function describeProperty(name: string, property: SchemaType): SchemaField {
+  let current = property;
+  let optional = false;
+  let nullable = false;
+  let defaultValue: unknown = undefined;
+  let pipe: SchemaType | undefined;
+  let description = (property as z.ZodType).description;
+
+  // Peel the wrappers off, remembering what they say about emptiness
+  for (;;) {
+    const def = current._zod.def;
+
+    if (def.type === "optional") {
+      optional = true;
+      current = (def as z.core.$ZodOptionalDef).innerType;
+    } else if (def.type === "nullable") {
+      nullable = true;
+      current = (def as z.core.$ZodNullableDef).innerType;
+    } else if (def.type === "default" || def.type === "prefault") {
+      optional = true;
+      defaultValue = (def as z.core.$ZodDefaultDef).defaultValue;
+      current = (def as z.core.$ZodDefaultDef).innerType;
+    } else if (def.type === "readonly" || def.type === "catch" || def.type === "nonoptional") {
+      current = (def as z.core.$ZodReadonlyDef).innerType;
+    } else if (def.type === "pipe") {
+      // Forms edit the input side, e.g. the string of `z.string().pipe(z.email())`
+      pipe ??= current;
+      current = (def as z.core.$ZodPipeDef).in;
+    } else {
+      break;
+    }
+
+    description ??= (current as z.ZodType).description;
+  }
+
+  const def = current._zod.def;
+  const bag = current._zod.bag as CheckBag;
+  const kind: FieldKind | undefined = def.type === "string" || def.type === "number" || def.type === "boolean" || def.type === "date"
+    ? def.type
+    : def.type === "enum"
+      ? "enum"
+      : undefined;
+
+  // A string piped into a formatted string (`z.string().trim().pipe(z.email())`) keeps the format
+  const format = bag.format ?? (pipe ? outputFormat(pipe) : undefined);
+
+  return {
+    name,
+    kind,
+    required: !optional && !nullable,
+    nullable,
+    defaultValue,
+    options: def.type === "enum" ? Object.values((def as z.core.$ZodEnumDef).entries).map(String) : [],
+    integer: kind === "number" && INTEGER_FORMATS.has(bag.format ?? ""),
+    minimum: kind === "number" && Number.isFinite(bag.minimum) ? bag.minimum : undefined,
+    maximum: kind === "number" && Number.isFinite(bag.maximum) ? bag.maximum : undefined,
+    maxLength: kind === "string" ? bag.maximum : undefined,
+    format: kind === "string" ? format : undefined,
+    description,
+  };
+}
+
+function outputFormat(property: SchemaType): string | undefined {
+  let current = property;
+  while (current._zod.def.type === "pipe") {
+    current = (current._zod.def as z.core.$ZodPipeDef).out;
+  }
+  return (current._zod.bag as CheckBag).format;
+}
+
+/**
+ * Turn a property name into a label, e.g. `createdAt` into "Created at"
+ */
+export function humanize(name: string) {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .toLowerCase();
+
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
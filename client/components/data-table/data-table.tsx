@@ -0,0 +1,465 @@
+/**
+ * @fileoverview DataTable component - Sortable, paginated table with column visibility and row selection
+ *
+ * Built on the `table.tsx` primitives. Rows come either from the `data` prop
+ * (sorted and paginated in the browser) or, in server mode, page by page from
+ * a list endpoint: the table's sort and page become the endpoint's query
+ * parameters (the `resource()` format of `shared/resource.ts`), so only the
+ * visible page is ever loaded.
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Settings2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, type QueryKey } from "@/lib/query";
+import { cn } from "@/lib/utils";
+import type { ResourceFilter, ResourceListQuery, ResourcePage } from "../../../shared/resource";
+
+type RowId = string | number;
+
+type SortValue = string | number | boolean | Date | null | undefined;
+
+export interface DataTableColumn<TRow> {
+  /** Unique id; in server mode also the column name sent in `sort` */
+  id: string;
+  header: React.ReactNode;
+  /** Cell content (default: the row's property named `id`) */
+  cell?: (row: TRow) => React.ReactNode;
+  /** Value compared when sorting in the browser (default: the row's property named `id`) */
+  sortValue?: (row: TRow) => SortValue;
+  /** Show a sort toggle in the header (default: false) */
+  sortable?: boolean;
+  /** Listed in the column visibility menu (default: true) */
+  hideable?: boolean;
+  /** Start hidden (default: false) */
+  hidden?: boolean;
+  /** Classes for the column's header and cells, e.g. `text-right` */
+  className?: string;
+}
+
+export interface DataTableSort {
+  id: string;
+  direction: "asc" | "desc";
+}
+
+export interface DataTableState {
+  sort: DataTableSort | null;
+  /** From 1 */
+  page: number;
+  pageSize: number;
+}
+
+export interface DataTableServerSource<TRow> {
+  /** Cache key prefix of the pages; invalidate it to reload the table */
+  queryKey: QueryKey;
+  /** Load one page, e.g. `(query, { signal }) => fetchResourcePage("/posts", query, { signal })` */
+  fetchPage: (query: ResourceListQuery, context: { signal: AbortSignal }) => Promise<ResourcePage<TRow>>;
+  /** Filters sent with every page; changing them returns to the first page */
+  filter?: ResourceFilter;
+}
+
+export interface DataTableProps<TRow> {
+  columns: DataTableColumn<TRow>[];
+  /** Every row, for tables sorted and paginated in the browser */
+  data?: TRow[];
+  /** Load rows page by page from a list endpoint instead of `data` */
+  server?: DataTableServerSource<TRow>;
+  /** Show the loading state (client mode; server mode tracks its own requests) */
+  loading?: boolean;
+  /** Row identity for selection and React keys (default: `row.id`) */
+  getRowId?: (row: TRow) => RowId;
+  /** Add a checkbox column for selecting rows */
+  selectable?: boolean;
+  /** Called with the ids of the selected rows, across pages */
+  onSelectionChange?: (ids: RowId[]) => void;
+  defaultSort?: DataTableSort | null;
+  /** Rows per page (default: 10) */
+  defaultPageSize?: number;
+  /** Choices of the rows-per-page menu (default: 10, 20, 50, 100) */
+  pageSizeOptions?: number[];
+  /** Content shown when there are no rows (default: "No results.") */
+  empty?: React.ReactNode;
+  /** Controls rendered above the table, e.g. filter inputs */
+  toolbar?: React.ReactNode;
+  className?: string;
+}
+
+const DEFAULT_PAGE_SIZES = [10, 20, 50, 100];
+
+const defaultRowId = (row: unknown) => (row as { id: RowId }).id;
+
+function readProperty<TRow>(row: TRow, id: string) {
+  return (row as Record<string, unknown>)[id];
+}
+
+const isEmpty = (value: SortValue) => value === null || value === undefined;
+
+/**
+ * Order two values for sorting in the browser; empty values go last in
+ * either direction
+ */
+function compareValues(a: SortValue, b: SortValue, direction: DataTableSort["direction"]) {
+  if (isEmpty(a) || isEmpty(b)) return Number(isEmpty(a)) - Number(isEmpty(b));
+  return direction === "asc" ? compareFilled(a, b) : compareFilled(b, a);
+}
+
+function compareFilled(a: SortValue, b: SortValue) {
+  if (a === b) return 0;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * Query parameters of a list endpoint for a table state
+ *
+ * @example
+ * toListQuery({ sort: { id: "createdAt", direction: "desc" }, page: 2, pageSize: 20 })
+ * // => { page: 2, pageSize: 20, sort: ["-createdAt"] }
+ */
+export function toListQuery(state: DataTableState, filter?: ResourceFilter): ResourceListQuery {
+  return {
+    page: state.page,
+    pageSize: state.pageSize,
+    sort: state.sort ? [`${state.sort.direction === "desc" ? "-" : ""}${state.sort.id}`] : undefined,
+    filter,
+  };
+}
+
+/**
+ * SortIcon Component
+ *
+ * Shows the current direction of a sortable column.
+ */
+const SortIcon: React.FC<{ direction?: DataTableSort["direction"] }> = ({ direction }) => {
+  if (direction === "asc") return <ArrowUp className="h-4 w-4" />;
+  if (direction === "desc") return <ArrowDown className="h-4 w-4" />;
+  return <ArrowUpDown className="h-4 w-4 opacity-50" />;
+};
+
+/**
+ * DataTable Component
+ *
+ * Headers of sortable columns cycle through ascending, descending and
+ * unsorted. Selection is kept by row id, so it survives sorting and paging.
+ *
+ * @example
+ * ```tsx
+ * const columns: DataTableColumn<Post>[] = [
+ *   { id: "title", header: "Title", sortable: true },
+ *   { id: "createdAt", header: "Created", sortable: true, cell: (post) => formatDate(post.createdAt) },
+ * ];
+ *
+ * // All rows in the browser
+ * <DataTable columns={columns} data={posts} loading={status === "pending"} />
+ *
+ * // Page by page from a `resource()` endpoint
+ * <DataTable
+ *   columns={columns}
+ *   server={{
+ *     queryKey: ["posts"],
+ *     fetchPage: (query, { signal }) => fetchResourcePage<Post>("/posts", query, { signal }),
+ *     filter: { status: "published" },
+ *   }}
+ *   defaultSort={{ id: "createdAt", direction: "desc" }}
+ *   selectable
+ *   onSelectionChange={setSelectedIds}
+ * />
+ * ```
+ */
+export function DataTable<TRow>({
+  columns,
+  data = [],
+  server,
+  loading = false,
+  getRowId = defaultRowId,
+  selectable = false,
+  onSelectionChange,
+  defaultSort = null,
+  defaultPageSize = 10,
+  pageSizeOptions = DEFAULT_PAGE_SIZES,
+  empty = "No results.",
+  toolbar,
+  className,
+}: DataTableProps<TRow>) {
+  const [state, setState] = useState<DataTableState>({ sort: defaultSort, page: 1, pageSize: defaultPageSize });
+  const [hidden, setHidden] = useState(() => new Set(columns.filter((column) => column.hidden).map((column) => column.id)));
+  const [selected, setSelected] = useState<Set<RowId>>(() => new Set());
+
+  // New filters start over at the first page. Compared serialized, so a filter
+  // object recreated on every render does not count as a change
+  const filterKey = JSON.stringify(server?.filter ?? null);
+  const [appliedFilterKey, setAppliedFilterKey] = useState(filterKey);
+  if (appliedFilterKey !== filterKey) {
+    setAppliedFilterKey(filterKey);
+    setState((current) => ({ ...current, page: 1 }));
+  }
+
+  const listQuery = toListQuery(state, server?.filter);
+  const serverPage = useQuery(
+    server ? [...server.queryKey, listQuery] : null,
+    ({ signal }) => server!.fetchPage(listQuery, { signal }),
+    { keepPreviousData: true }
+  );
+
+  const clientRows = useMemo(() => {
+    if (server || !state.sort) return data;
+
+    const column = columns.find((candidate) => candidate.id === state.sort!.id);
+    const value = column?.sortValue ?? ((row: TRow) => readProperty(row, state.sort!.id) as SortValue);
+    const { direction } = state.sort;
+
+    return [...data].sort((a, b) => compareValues(value(a), value(b), direction));
+  }, [server, data, columns, state.sort]);
+
+  const isLoading = server ? serverPage.status === "pending" : loading;
+  // The requested page failed to load; rows kept from the previous page would be wrong
+  const isError = Boolean(server) && !serverPage.isFetching
+    && (serverPage.status === "error" || (serverPage.isPlaceholderData && serverPage.error !== undefined));
+
+  const total = server ? serverPage.data?.total ?? 0 : clientRows.length;
+  const pageCount = Math.max(1, Math.ceil(total / state.pageSize));
+  const rows = server
+    ? isError ? [] : serverPage.data?.data ?? []
+    : clientRows.slice((state.page - 1) * state.pageSize, state.page * state.pageSize);
+
+  const isRefreshing = Boolean(server) && serverPage.isPlaceholderData && !isError;
+  // Only a loaded page tells how many pages there are
+  const hasCurrentPage = !isLoading && !isError && !serverPage.isPlaceholderData;
+
+  // Rows removed elsewhere (or filtered out) can leave the table past its last page
+  useEffect(() => {
+    if (hasCurrentPage && state.page > pageCount) {
+      setState((current) => ({ ...current, page: pageCount }));
+    }
+  }, [hasCurrentPage, state.page, pageCount]);
+
+  const visibleColumns = columns.filter((column) => !hidden.has(column.id));
+  const hideableColumns = columns.filter((column) => column.hideable !== false);
+
+  const updateSelection = (next: Set<RowId>) => {
+    setSelected(next);
+    onSelectionChange?.([...next]);
+  };
+
+  const pageIds = rows.map(getRowId);
+  const selectedOnPage = pageIds.filter((id) => selected.has(id)).length;
+  const pageSelection = selectedOnPage === 0 ? false : selectedOnPage === pageIds.length ? true : "indeterminate";
+
+  const togglePage = (checked: boolean) => {
+    const next = new Set(selected);
+    for (const id of pageIds) {
+      if (checked) next.add(id);
+      else next.delete(id);
+    }
+    updateSelection(next);
+  };
+
+  const toggleRow = (id: RowId, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    updateSelection(next);
+  };
+
+  const toggleSort = (id: string) => {
+    setState((current) => {
+      const sort: DataTableSort | null = current.sort?.id !== id
+        ? { id, direction: "asc" }
+        : current.sort.direction === "asc" ? { id, direction: "desc" } : null;
+
+      return { ...current, sort, page: 1 };
+    });
+  };
+
+  const goToPage = (page: number) => {
+    setState((current) => ({ ...current, page: Math.min(Math.max(page, 1), pageCount) }));
+  };
+
+  const columnCount = visibleColumns.length + (selectable ? 1 : 0);
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 items-center gap-2">{toolbar}</div>
+        {hideableColumns.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="ml-auto">
+                <Settings2 className="mr-2 h-4 w-4" />
+                Columns
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Toggle columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {hideableColumns.map((column) => (
+                <DropdownMenuCheckboxItem
+                  key={column.id}
+                  checked={!hidden.has(column.id)}
+                  // Keep the menu open to toggle several columns
+                  onSelect={(event) => event.preventDefault()}
+                  onCheckedChange={(checked) => {
+                    const next = new Set(hidden);
+                    if (checked) next.delete(column.id);
+                    else next.add(column.id);
+                    setHidden(next);
+                  }}
+                >
+                  {column.header}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      <div className="rounded-md border">
+        <Table aria-busy={isLoading || isRefreshing}>
+          <TableHeader>
+            <TableRow>
+              {selectable && (
+                <TableHead className="w-10">
+                  <Checkbox
+                    aria-label="Select all rows on this page"
+                    checked={pageSelection}
+                    disabled={rows.length === 0}
+                    onCheckedChange={(checked) => togglePage(checked === true)}
+                  />
+                </TableHead>
+              )}
+              {visibleColumns.map((column) => {
+                const direction = state.sort?.id === column.id ? state.sort.direction : undefined;
+
+                return (
+                  <TableHead
+                    key={column.id}
+                    className={column.className}
+                    aria-sort={direction === "asc" ? "ascending" : direction === "desc" ? "descending" : undefined}
+                  >
+                    {column.sortable ? (
+                      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => toggleSort(column.id)}>
+                        {column.header}
+                        <SortIcon direction={direction} />
+                      </Button>
+                    ) : (
+                      column.header
+                    )}
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody className={cn(isRefreshing && "opacity-60 transition-opacity")}>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="h-24">
+                  <div className="flex items-center justify-center gap-2 text-muted-foreground">
+                    <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+                    Loading...
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : isError ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="h-24">
+                  <div className="flex flex-col items-center justify-center gap-2 text-muted-foreground">
+                    Could not load this page.
+                    <Button variant="outline" size="sm" onClick={() => void serverPage.refetch()}>
+                      Try again
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="h-24 text-center text-muted-foreground">
+                  {empty}
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row) => {
+                const id = getRowId(row);
+                const isSelected = selected.has(id);
+
+                return (
+                  <TableRow key={id} data-state={isSelected ? "selected" : undefined}>
+                    {selectable && (
+                      <TableCell>
+                        <Checkbox
+                          aria-label="Select row"
+                          checked={isSelected}
+                          onCheckedChange={(checked) => toggleRow(id, checked === true)}
+                        />
+                      </TableCell>
+                    )}
+                    {visibleColumns.map((column) => (
+                      <TableCell key={column.id} className={column.className}>
+                        {column.cell ? column.cell(row) : String(readProperty(row, column.id) ?? "")}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 text-sm text-muted-foreground">
+        <div>
+          {selectable && selected.size > 0 ? `${selected.size} of ${total} row(s) selected` : `${total} row(s)`}
+        </div>
+        <div className="flex items-center gap-6">
+          <div className="flex items-center gap-2">
+            <span>Rows per page</span>
+            <Select
+              value={String(state.pageSize)}
+              onValueChange={(value) => setState((current) => ({ ...current, pageSize: Number(value), page: 1 }))}
+            >
+              <SelectTrigger className="h-8 w-[72px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {pageSizeOptions.map((size) => (
+                  <SelectItem key={size} value={String(size)}>
+                    {size}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <span>
+            Page {Math.min(state.page, pageCount)} of {pageCount}
+          </span>
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" className="h-8 w-8" aria-label="First page" disabled={state.page <= 1} onClick={() => goToPage(1)}>
+              <ChevronsLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Previous page" disabled={state.page <= 1} onClick={() => goToPage(state.page - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Next page" disabled={state.page >= pageCount} onClick={() => goToPage(state.page + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" aria-label="Last page" disabled={state.page >= pageCount} onClick={() => goToPage(pageCount)}>
+              <ChevronsRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview FileUploader component - Drag-and-drop uploads with per-file progress
+ *
+ * Files dropped on the zone (or picked through the file dialog) are uploaded
+ * right away to `POST /api/files`, each with its own progress bar. The
+ * server enforces the real limits; `accept` and `maxSize` only reject
+ * obviously wrong files before they are sent.
+ */
+
+import React, { useCallback, useEffect, useId, useRef, useState } from "react";
+import { CheckCircle2, Upload, X, XCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { uploadFile } from "@/lib/upload";
+import { cn } from "@/lib/utils";
+import type { PublicFile } from "../../../shared/schema";
+
+interface UploadItem {
+  key: string;
+  file: File;
+  progress: number;
+  status: "uploading" | "done" | "error";
+  error?: string;
+  controller?: AbortController;
+}
+
+export interface FileUploaderProps {
+  /** Accepted MIME types, `image/*` matches every image type */
+  accept?: string[];
+  /** Largest accepted file in bytes */
+  maxSize?: number;
+  /** Allow several files at once (default: true) */
+  multiple?: boolean;
+  /** Called once per file after it has been stored */
+  onUploaded?: (file: PublicFile) => void;
+  className?: string;
+}
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isAccepted(file: File, accept: string[]) {
+  return accept.some((pattern) => pattern.endsWith("/*")
+    ? file.type.startsWith(pattern.slice(0, -1))
+    : file.type === pattern);
+}
+
+/**
+ * FileUploader Component
+ *
+ * Requires a signed-in user, like the upload endpoint.
+ *
+ * @example
+ * ```tsx
+ * <FileUploader
+ *   accept={["image/*", "application/pdf"]}
+ *   maxSize={10 * 1024 * 1024}
+ *   onUploaded={(file) => setAttachments((files) => [...files, file])}
+ * />
+ * ```
+ */
+export const FileUploader: React.FC<FileUploaderProps> = ({
+  accept,
+  maxSize,
+  multiple = true,
+  onUploaded,
+  className,
+}) => {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const inputId = useId();
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  // Abort uploads still running when the uploader goes away
+  useEffect(() => () => itemsRef.current.forEach((item) => item.controller?.abort()), []);
+
+  const update = useCallback((key: string, changes: Partial<UploadItem>) => {
+    setItems((current) => current.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+  }, []);
+
+  const startUpload = useCallback(
+    (file: File) => {
+      const key = `${file.name}-${file.size}-${crypto.randomUUID()}`;
+
+      let error: string | undefined;
+      if (accept && !isAccepted(file, accept)) error = `${file.type || "This file type"} is not accepted`;
+      else if (maxSize !== undefined && file.size > maxSize) error = `Larger than ${formatBytes(maxSize)}`;
+
+      if (error) {
+        setItems((current) => [...current, { key, file, progress: 0, status: "error", error }]);
+        return;
+      }
+
+      const controller = new AbortController();
+      setItems((current) => [...current, { key, file, progress: 0, status: "uploading", controller }]);
+
+      uploadFile(file, {
+        signal: controller.signal,
+        onProgress: (fraction) => update(key, { progress: Math.round(fraction * 100) }),
+      }).then(
+        (stored) => {
+          update(key, { status: "done", progress: 100, controller: undefined });
+          onUploaded?.(stored);
+        },
+        (reason: unknown) => {
+          if (reason instanceof DOMException && reason.name === "AbortError") return;
+          update(key, {
+            status: "error",
+            controller: undefined,
+            error: reason instanceof Error ? reason.message : "Upload failed",
+          });
+        }
+      );
+    },
+    [accept, maxSize, onUploaded, update]
+  );
+
+  const addFiles = (fileList: FileList | null) => {
+    const selected = Array.from(fileList ?? []);
+    (multiple ? selected : selected.slice(0, 1)).forEach(startUpload);
+  };
+
+  const remove = (item: UploadItem) => {
+    item.controller?.abort();
+    setItems((current) => current.filter((other) => other.key !== item.key));
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <label
+        htmlFor={inputId}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setDragging(false);
+          addFiles(event.dataTransfer.files);
+        }}
+        className={cn(
+          "flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-8 text-center transition-colors",
+          "has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-ring has-[:focus-visible]:ring-offset-2",
+          dragging ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-muted-foreground/50"
+        )}
+      >
+        <Upload className="h-8 w-8 text-muted-foreground" aria-hidden="true" />
+        <span className="text-sm font-medium">
+          Drop {multiple ? "files" : "a file"} here or click to browse
+        </span>
+        {maxSize !== undefined && (
+          <span className="text-xs text-muted-foreground">Up to {formatBytes(maxSize)}</span>
+        )}
+        <input
+          id={inputId}
+          type="file"
+          className="sr-only"
+          multiple={multiple}
+          accept={accept?.join(",")}
+          onChange={(event) => {
+            addFiles(event.target.files);
+            // Allow picking the same file again
+            event.target.value = "";
+          }}
+        />
+      </label>
+
+      {items.length > 0 && (
+        <ul className="space-y-2">
+          {items.map((item) => (
+            <li key={item.key} className="rounded-md border p-3">
+              <div className="flex items-center gap-2">
+                {item.status === "done" && <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" aria-hidden="true" />}
+                {item.status === "error" && <XCircle className="h-4 w-4 shrink-0 text-destructive" aria-hidden="true" />}
+                <span className="flex-1 truncate text-sm">{item.file.name}</span>
+                <span className="text-xs text-muted-foreground">{formatBytes(item.file.size)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => remove(item)}
+                  aria-label={item.status === "uploading" ? `Cancel upload of ${item.file.name}` : `Remove ${item.file.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {item.status === "uploading" && (
+                <Progress value={item.progress} className="mt-2 h-2" aria-label={`Uploading ${item.file.name}`} />
+              )}
+              {item.status === "error" && <p className="mt-1 text-xs text-destructive">{item.error}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
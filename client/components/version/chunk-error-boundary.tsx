@@ -0,0 +1,67 @@
+/**
+ * @fileoverview ChunkErrorBoundary component - Recovers from lazy chunks that failed to load
+ *
+ * A page loaded with `React.lazy` whose chunk was removed by a newer
+ * deployment would otherwise leave a blank screen. The boundary shows a
+ * reload prompt instead; other errors are passed on to the next boundary.
+ */
+
+import React from "react";
+
+import { Button } from "@/components/ui/button";
+import { isChunkLoadError, showUpdatePrompt } from "@/lib/version";
+
+interface ChunkErrorBoundaryProps {
+  children: React.ReactNode;
+}
+
+interface ChunkErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * ChunkErrorBoundary Component
+ *
+ * Wrap it around the `<Suspense>` boundary of lazy routes.
+ *
+ * @example
+ * ```tsx
+ * <ChunkErrorBoundary>
+ *   <Suspense fallback={<LoadingFallback />}>
+ *     <Routes>...</Routes>
+ *   </Suspense>
+ * </ChunkErrorBoundary>
+ * ```
+ */
+export class ChunkErrorBoundary extends React.Component<ChunkErrorBoundaryProps, ChunkErrorBoundaryState> {
+  state: ChunkErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ChunkErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error) {
+    if (isChunkLoadError(error)) {
+      showUpdatePrompt();
+    }
+  }
+
+  render() {
+    const { error } = this.state;
+
+    if (!error) return this.props.children;
+
+    // Not ours to handle: rethrowing hands it to the next boundary up
+    if (!isChunkLoadError(error)) throw error;
+
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center space-y-4">
+          <h1 className="text-2xl font-semibold">A new version is available</h1>
+          <p className="text-muted-foreground">This page could not be loaded. Reload to get the latest version.</p>
+          <Button onClick={() => window.location.reload()}>Reload</Button>
+        </div>
+      </div>
+    );
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview VersionWatcher component - Offers a reload when a new build is deployed
+ *
+ * Polls `GET /api/version` and compares the result with the version embedded
+ * in the bundle. Also catches lazy chunks that failed to preload, which
+ * happens when the chunk was removed by a newer deployment.
+ */
+
+import React, { useEffect } from "react";
+
+import { api } from "@/lib/api";
+import { APP_VERSION, showUpdatePrompt } from "@/lib/version";
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * VersionWatcher Component
+ *
+ * Renders nothing. The check runs every few minutes and whenever the tab
+ * becomes visible again; it stops once a new version has been found. In
+ * development the bundle is always current, so nothing is polled.
+ */
+export const VersionWatcher: React.FC = () => {
+  useEffect(() => {
+    // Vite fires this when a lazy chunk (or its CSS) cannot be preloaded
+    const handlePreloadError = (event: Event) => {
+      event.preventDefault();
+      showUpdatePrompt();
+    };
+    window.addEventListener("vite:preloadError", handlePreloadError);
+
+    if (APP_VERSION === "development") {
+      return () => window.removeEventListener("vite:preloadError", handlePreloadError);
+    }
+
+    let outdated = false;
+
+    const checkVersion = async () => {
+      if (outdated || document.visibilityState !== "visible") return;
+
+      try {
+        const { version } = await api.version();
+        if (version !== APP_VERSION) {
+          outdated = true;
+          showUpdatePrompt();
+        }
+      } catch {
+        // Offline or mid-deployment; try again on the next tick
+      }
+    };
+
+    const interval = window.setInterval(checkVersion, POLL_INTERVAL_MS);
+    document.addEventListener("visibilitychange", checkVersion);
+
+    return () => {
+      window.removeEventListener("vite:preloadError", handlePreloadError);
+      window.clearInterval(interval);
+      document.removeEventListener("visibilitychange", checkVersion);
+    };
+  }, []);
+
+  return null;
+};
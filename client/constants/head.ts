@@ -0,0 +1,24 @@
+/**
+ * Document Head Constants
+ * 
+ * Defaults for the document `<head>`, used when no page sets its own
+ * title or description with `useDocumentHead` (`@/lib/document-head`).
+ * 
+ * Keep `title` and `description` in sync with `client/index.html`, which
+ * is what browsers see before the app has loaded.
+ * 
+ * @example
+ * ```tsx
+ * useDocumentHead({ title: 'Pricing' }) // "Pricing | React App"
+ * ```
+ */
+export const HeadDefaults = {
+  /** Page titles are formatted with this template; `%s` is the page title */
+  titleTemplate: '%s | React App',
+
+  /** Title of pages that do not set one */
+  title: 'React App - Made using make.inc',
+
+  /** Description of pages that do not set one */
+  description: 'A modern React application',
+} as const
@@ -0,0 +1,33 @@
+/**
+ * Prerendered Routes Constants
+ * 
+ * Public pages rendered to static HTML at build time (`npm run build`).
+ * Each route is written to `dist/client/<path>/index.html` and served to
+ * browsers and crawlers without a live SSR server; the app hydrates it
+ * like any server-rendered page.
+ * 
+ * Only list pages that look the same for every visitor: prerendered HTML
+ * is built once, without cookies or query parameters. Titles and meta tags
+ * come from the page's own `useDocumentHead` call.
+ * 
+ * @example
+ * ```ts
+ * { path: '/pricing' }
+ * ```
+ */
+
+import { RedirectPaths } from './redirects'
+
+/**
+ * Route to prerender
+ */
+export interface PrerenderRoute {
+  /** URL path, e.g. `/pricing` */
+  path: string
+}
+
+export const PrerenderRoutes: PrerenderRoute[] = [
+  { path: RedirectPaths.toHome },
+  { path: RedirectPaths.toLogin },
+  { path: RedirectPaths.toRegister },
+]
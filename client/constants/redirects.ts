@@ -47,6 +47,44 @@ export const RedirectPaths = {
    * ```
    */
   toHome: '/',
+
+  /**
+   * Redirect to the login page
+   * 
+   * Unauthenticated visits to a `<ProtectedRoute>` are sent here with the
+   * original URL in the `redirectTo` query parameter, so the user returns
+   * to it after signing in.
+   * 
+   * @example
+   * ```tsx
+   * <Link to={RedirectPaths.toLogin}>Sign in</Link>
+   * ```
+   */
+  toLogin: '/login',
+
+  /**
+   * Redirect to the registration page
+   * 
+   * @example
+   * ```tsx
+   * <Link to={RedirectPaths.toRegister}>Create an account</Link>
+   * ```
+   */
+  toRegister: '/register',
+
+  /**
+   * Default destination after a successful login or registration
+   * 
+   * Used when the login page was opened without a `redirectTo` parameter.
+   */
+  afterLogin: '/',
+
+  /**
+   * Destination after the user signs out
+   * 
+   * `useAuth().logout()` navigates here once the session is cleared.
+   */
+  afterLogout: '/login',
 } as const
 
 /**
@@ -0,0 +1,48 @@
+/**
+ * Server-Side Entry Point
+ *
+ * Renders the application to a stream for a single request when SSR is
+ * enabled (`SSR=true`). Loaded by `server/vite.ts` through
+ * `vite.ssrLoadModule` in development and from `dist/ssr/entry-server.js`
+ * in production. The browser takes over the markup with `hydrateRoot`
+ * in `client/main.tsx`.
+ *
+ * The provider tree must match `client/main.tsx`, apart from the router,
+ * or hydration will fail.
+ *
+ * Also used at build time to prerender `prerenderRoutes` (`server/prerender.ts`).
+ */
+
+import { renderToPipeableStream, type RenderToPipeableStreamOptions } from 'react-dom/server'
+import { StaticRouter } from 'react-router-dom/server'
+import App from './App'
+import { AuthProvider } from './components/auth/auth-provider'
+import { ServerContext, type ServerContextValue } from './lib/server-context'
+
+export { PrerenderRoutes as prerenderRoutes } from './constants/prerender'
+
+/**
+ * Render the application for a URL
+ *
+ * @param url - Request URL including the query string
+ * @param context - Collects the response status while rendering
+ * @param options - React streaming callbacks and the CSP nonce
+ */
+export function render(url: string, context: ServerContextValue, options: RenderToPipeableStreamOptions) {
+  return renderToPipeableStream(
+    <ServerContext.Provider value={context}>
+      <StaticRouter
+        location={url}
+        future={{
+          v7_relativeSplatPath: true,
+          v7_startTransition: true,
+        }}
+      >
+        <AuthProvider>
+          <App />
+        </AuthProvider>
+      </StaticRouter>
+    </ServerContext.Provider>,
+    options
+  )
+}
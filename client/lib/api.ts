@@ -0,0 +1,168 @@
+/**
+ * Typed API Client
+ *
+ * This module generates a fully typed `api` object from the shared contract
+ * in `shared/api.ts`. Each contract entry becomes a function with the same
+ * key that builds the URL, sends the request and parses the response with the
+ * endpoint's response schema.
+ *
+ * Changing a response shape in the contract breaks the typecheck of every
+ * client call site that relies on the old shape.
+ *
+ * @example
+ * ```tsx
+ * import { api, ApiError } from "@/lib/api"
+ *
+ * const report = await api.healthReady()
+ * const user = await api.getUser({ params: { id: 42 } })
+ *
+ * try {
+ *   await api.createUser({ body: values })
+ * } catch (error) {
+ *   if (error instanceof ApiError && isValidationProblem(error.problem)) {
+ *     setServerErrors(form.setError, error.problem)
+ *   }
+ * }
+ * ```
+ */
+
+import { contract } from "../../shared/api"
+import {
+  buildPath,
+  type Contract,
+  type Endpoint,
+  type EndpointInput,
+  type EndpointOutput,
+} from "../../shared/contract"
+
+/**
+ * problem+json body returned by the server for failed requests
+ */
+export interface ProblemDetails {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  correlationId?: string
+  [extension: string]: unknown
+}
+
+/**
+ * Error thrown for every non-2xx response
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly problem: ProblemDetails
+
+  constructor(problem: ProblemDetails) {
+    super(problem.detail ?? problem.title)
+    this.name = "ApiError"
+    this.status = problem.status
+    this.problem = problem
+  }
+}
+
+type ClientMethod<TEndpoint extends Endpoint> = Record<string, never> extends EndpointInput<TEndpoint>
+  ? (input?: EndpointInput<TEndpoint>, init?: RequestInit) => Promise<EndpointOutput<TEndpoint>>
+  : (input: EndpointInput<TEndpoint>, init?: RequestInit) => Promise<EndpointOutput<TEndpoint>>
+
+/**
+ * Typed client generated from a contract
+ */
+export type ApiClient<TContract extends Contract> = {
+  [K in keyof TContract]: ClientMethod<TContract[K]>
+}
+
+interface RequestInput {
+  params?: Record<string, unknown>
+  query?: Record<string, unknown>
+  body?: unknown
+}
+
+export interface ApiClientOptions {
+  /** Prefix the contract paths are relative to (default: "/api") */
+  baseUrl?: string
+  /** Fetch implementation, useful for tests and server-side rendering */
+  fetch?: typeof fetch
+}
+
+function toSearchParams(query: Record<string, unknown> = {}) {
+  const search = new URLSearchParams()
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue
+
+    for (const item of Array.isArray(value) ? value : [value]) {
+      search.append(key, item instanceof Date ? item.toISOString() : String(item))
+    }
+  }
+
+  const serialized = search.toString()
+  return serialized ? `?${serialized}` : ""
+}
+
+/**
+ * Read the problem+json body of a failed response, for requests made outside `api`
+ */
+export async function readProblem(response: Response): Promise<ProblemDetails> {
+  const fallback = { type: "about:blank", title: response.statusText || "Request failed", status: response.status }
+
+  try {
+    const body = (await response.json()) as Partial<ProblemDetails>
+    return { ...fallback, ...body, status: response.status }
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Generate a typed client for a contract
+ *
+ * @param apiContract - Contract declared with `defineContract`
+ * @param options - Base URL and fetch implementation
+ * @returns {ApiClient} Object with one async function per endpoint
+ */
+export function createApiClient<TContract extends Contract>(
+  apiContract: TContract,
+  { baseUrl = "/api", fetch: fetchImpl = (...args) => fetch(...args) }: ApiClientOptions = {}
+): ApiClient<TContract> {
+  const call = async (endpoint: Endpoint, input: RequestInput = {}, init: RequestInit = {}) => {
+    const url = `${baseUrl}${buildPath(endpoint.path, input.params)}${toSearchParams(input.query)}`
+    const headers = new Headers(init.headers)
+    headers.set("Accept", "application/json")
+
+    if (input.body !== undefined) {
+      headers.set("Content-Type", "application/json")
+    }
+
+    const response = await fetchImpl(url, {
+      credentials: "same-origin",
+      ...init,
+      method: endpoint.method,
+      headers,
+      body: input.body === undefined ? undefined : JSON.stringify(input.body),
+    })
+
+    if (!response.ok) {
+      throw new ApiError(await readProblem(response))
+    }
+
+    const body: unknown = response.status === 204 ? undefined : await response.json()
+    return endpoint.response.parse(body)
+  }
+
+  const client = Object.fromEntries(
+    Object.entries(apiContract).map(([key, endpoint]) => [
+      key,
+      (input?: RequestInput, init?: RequestInit) => call(endpoint, input, init),
+    ])
+  )
+
+  return client as ApiClient<TContract>
+}
+
+/**
+ * Client for the application's API contract
+ */
+export const api = createApiClient(contract)
@@ -0,0 +1,187 @@
+/**
+ * Document Head
+ *
+ * Per-page titles, descriptions, canonical URLs and Open Graph tags.
+ *
+ * In the browser, the head is updated after every render and restored when
+ * the page unmounts; nested calls (a layout and its page) are merged, the
+ * innermost winning. During server rendering the same data is collected in
+ * the `ServerContext` and written into the HTML by the server.
+ *
+ * @example
+ * ```tsx
+ * const PricingPage = () => {
+ *   useDocumentHead({
+ *     title: "Pricing",
+ *     description: "Plans for teams of every size",
+ *     canonical: "https://example.com/pricing",
+ *     og: { image: "https://example.com/og/pricing.png" },
+ *   })
+ *   return <h1>Pricing</h1>
+ * }
+ *
+ * // or, as a component
+ * <Head title="Pricing" />
+ * ```
+ */
+
+import React, { useContext, useEffect, useState } from "react"
+
+import { HeadDefaults } from "@/constants/head"
+import { ServerContext, type ServerContextValue } from "@/lib/server-context"
+
+export interface OpenGraph {
+  /** Defaults to the page title (without the title template) */
+  title?: string
+  /** Defaults to the page description */
+  description?: string
+  /** Absolute URL of the preview image */
+  image?: string
+  /** Defaults to `website` */
+  type?: string
+  /** Defaults to the canonical URL */
+  url?: string
+}
+
+export interface DocumentHead {
+  /** Page title, formatted with `HeadDefaults.titleTemplate` */
+  title?: string
+  description?: string
+  /** Absolute URL of the preferred version of the page */
+  canonical?: string
+  og?: OpenGraph
+}
+
+/**
+ * Head as written into the document
+ */
+export interface ResolvedHead {
+  title: string
+  description: string
+  canonical?: string
+  /** Open Graph `<meta property>` tags, e.g. `{ "og:title": "Pricing" }` */
+  openGraph: Record<string, string>
+}
+
+/** Attribute marking the tags this module manages */
+export const HEAD_ATTRIBUTE = "data-document-head"
+
+function mergeHeads(heads: DocumentHead[]): DocumentHead {
+  return heads.reduce<DocumentHead>(
+    (merged, head) => ({ ...merged, ...head, og: { ...merged.og, ...head.og } }),
+    {}
+  )
+}
+
+/**
+ * Apply the defaults and title template to a head
+ *
+ * Pages that set nothing get the defaults and no Open Graph tags.
+ */
+export function resolveHead(head: DocumentHead): ResolvedHead {
+  const title = head.title ? HeadDefaults.titleTemplate.replace("%s", head.title) : HeadDefaults.title
+  const description = head.description ?? HeadDefaults.description
+  const hasPageHead = Boolean(head.title || head.description || head.canonical || Object.keys(head.og ?? {}).length)
+
+  const openGraph = hasPageHead
+    ? Object.fromEntries(
+        Object.entries({
+          "og:title": head.og?.title ?? head.title ?? title,
+          "og:description": head.og?.description ?? description,
+          "og:type": head.og?.type ?? "website",
+          "og:url": head.og?.url ?? head.canonical,
+          "og:image": head.og?.image,
+        }).filter((entry): entry is [string, string] => entry[1] !== undefined)
+      )
+    : {}
+
+  return { title, description, canonical: head.canonical, openGraph }
+}
+
+// Heads of the mounted components. Effects run children first, so entries are
+// ordered by when their component first rendered (parents render first).
+const mounted: { order: number; head: DocumentHead }[] = []
+let renderCount = 0
+
+// Heads collected per server render, outermost first
+const serverHeads = new WeakMap<ServerContextValue, DocumentHead[]>()
+
+function upsert(selector: string, create: () => HTMLElement) {
+  let element = document.head.querySelector<HTMLElement>(selector)
+
+  if (!element) {
+    element = create()
+    document.head.appendChild(element)
+  }
+
+  return element
+}
+
+function applyToDocument() {
+  const heads = [...mounted].sort((a, b) => a.order - b.order).map(({ head }) => head)
+  const { title, description, canonical, openGraph } = resolveHead(mergeHeads(heads))
+
+  document.title = title
+
+  upsert('meta[name="description"]', () => {
+    const meta = document.createElement("meta")
+    meta.name = "description"
+    return meta
+  }).setAttribute("content", description)
+
+  document.head.querySelectorAll(`link[rel="canonical"][${HEAD_ATTRIBUTE}], meta[${HEAD_ATTRIBUTE}]`).forEach((element) => element.remove())
+
+  if (canonical) {
+    const link = document.createElement("link")
+    link.rel = "canonical"
+    link.href = canonical
+    link.setAttribute(HEAD_ATTRIBUTE, "")
+    document.head.appendChild(link)
+  }
+
+  for (const [property, content] of Object.entries(openGraph)) {
+    const meta = document.createElement("meta")
+    meta.setAttribute("property", property)
+    meta.content = content
+    meta.setAttribute(HEAD_ATTRIBUTE, "")
+    document.head.appendChild(meta)
+  }
+}
+
+/**
+ * Set the document head for as long as the calling component is mounted
+ *
+ * @param head - Title, description, canonical URL and Open Graph tags
+ */
+export function useDocumentHead(head: DocumentHead) {
+  const [order] = useState(() => ++renderCount)
+  const serverContext = useContext(ServerContext)
+
+  // Server rendering: collect instead of touching the (non-existent) document
+  if (serverContext) {
+    const heads = [...(serverHeads.get(serverContext) ?? []), head]
+    serverHeads.set(serverContext, heads)
+    serverContext.head = resolveHead(mergeHeads(heads))
+  }
+
+  // Objects passed inline are new on every render; only react to content changes
+  const key = JSON.stringify(head)
+
+  useEffect(() => {
+    mounted.push({ order, head: JSON.parse(key) as DocumentHead })
+    applyToDocument()
+
+    return () => {
+      mounted.splice(mounted.findIndex((entry) => entry.order === order), 1)
+      applyToDocument()
+    }
+  }, [order, key])
+}
+
+/**
+ * Component form of `useDocumentHead`, renders nothing
+ */
+export const Head: React.FC<DocumentHead> = (props) => {
+  useDocumentHead(props)
+  return null
+}
@@ -0,0 +1,91 @@
+/**
+ * Server Form Errors
+ *
+ * Helpers for mapping validation errors returned by the server's `validate()`
+ * middleware onto a react-hook-form instance. Once applied, each message is
+ * rendered by the matching `<FormMessage />` from `@/components/ui/form`.
+ *
+ * @example
+ * ```tsx
+ * const onSubmit = async (values: InsertUser) => {
+ *   const response = await fetch("/api/users", { method: "POST", ... })
+ *   const body = await response.json()
+ *
+ *   if (isValidationProblem(body)) {
+ *     setServerErrors(form.setError, body)
+ *   }
+ * }
+ * ```
+ */
+
+import type { FieldPath, FieldValues, UseFormSetError } from "react-hook-form"
+
+/**
+ * A single field error, shaped like react-hook-form's `ErrorOption`
+ */
+export interface ServerFieldError {
+  type: string
+  message: string
+}
+
+/**
+ * problem+json body of a 400 response produced by the `validate()` middleware
+ */
+export interface ValidationProblem {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  correlationId?: string
+  errors: Record<string, ServerFieldError>
+}
+
+/**
+ * Check whether a response body is a validation problem
+ *
+ * @param body - Parsed JSON response body
+ * @returns {boolean} True when the body carries field errors
+ */
+export function isValidationProblem(body: unknown): body is ValidationProblem {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    (body as ValidationProblem).status === 400 &&
+    typeof (body as ValidationProblem).errors === "object"
+  )
+}
+
+/**
+ * Apply server field errors to a form
+ *
+ * Errors without a matching field (for example `query.*` keys) are collected
+ * under react-hook-form's `root.server` key so they can still be displayed.
+ *
+ * @param setError - The form's `setError` function
+ * @param problem - Validation problem returned by the server
+ * @param fields - Known field names; when omitted every key is applied as-is
+ */
+export function setServerErrors<TFieldValues extends FieldValues>(
+  setError: UseFormSetError<TFieldValues>,
+  problem: ValidationProblem,
+  fields?: readonly string[]
+): void {
+  const unmatched: string[] = []
+  let focused = false
+
+  for (const [name, error] of Object.entries(problem.errors)) {
+    const isField = name !== "root" && (!fields || fields.includes(name.split(".")[0]))
+
+    if (!isField) {
+      unmatched.push(error.message)
+      continue
+    }
+
+    setError(name as FieldPath<TFieldValues>, error, { shouldFocus: !focused })
+    focused = true
+  }
+
+  if (unmatched.length > 0) {
+    setError("root.server", { type: "server", message: unmatched.join(" ") })
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { hashKey, matchesPrefix } from "./query"
+
+describe("hashKey", () => {
+  it("hashes objects the same whatever their property order", () => {
+    expect(hashKey(["posts", { page: 1, sort: ["-createdAt"] }])).toBe(hashKey(["posts", { sort: ["-createdAt"], page: 1 }]))
+  })
+
+  it("sorts nested objects too", () => {
+    expect(hashKey([{ filter: { a: 1, b: 2 } }])).toBe(hashKey([{ filter: { b: 2, a: 1 } }]))
+  })
+
+  it("keeps the order of array items", () => {
+    expect(hashKey(["posts", 1, 2])).not.toBe(hashKey(["posts", 2, 1]))
+  })
+
+  it("tells apart values that print alike", () => {
+    expect(hashKey(["1"])).not.toBe(hashKey([1]))
+    expect(hashKey([null])).not.toBe(hashKey(["null"]))
+  })
+})
+
+describe("matchesPrefix", () => {
+  const key = ["posts", { page: 2, pageSize: 20 }]
+
+  it("matches the key itself and every leading part of it", () => {
+    expect(matchesPrefix(key, key)).toBe(true)
+    expect(matchesPrefix(key, ["posts"])).toBe(true)
+    expect(matchesPrefix(key, [])).toBe(true)
+  })
+
+  it("compares object parts by value", () => {
+    expect(matchesPrefix(key, ["posts", { pageSize: 20, page: 2 }])).toBe(true)
+    expect(matchesPrefix(key, ["posts", { page: 3, pageSize: 20 }])).toBe(false)
+  })
+
+  it("does not match other keys", () => {
+    expect(matchesPrefix(key, ["users"])).toBe(false)
+    expect(matchesPrefix(["posts-archive"], ["posts"])).toBe(false)
+  })
+
+  it("does not match prefixes longer than the key", () => {
+    expect(matchesPrefix(["posts"], ["posts", undefined])).toBe(false)
+    expect(matchesPrefix(["posts"], ["posts", null])).toBe(false)
+  })
+})
@@ -0,0 +1,602 @@
+/**
+ * Data Fetching
+ *
+ * `useQuery` and `useMutation` on top of one page-wide cache keyed by arrays
+ * such as `["files"]` or `["posts", id]`:
+ * - Components using the same key share one cache entry and one request
+ * - Cached data renders immediately and is refetched in the background once
+ *   older than `staleTime` (stale-while-revalidate), including when the
+ *   window regains focus
+ * - `invalidateQueries(["posts"])` marks every key starting with `"posts"`
+ *   stale and refetches the ones on screen
+ * - Mutations can change cached data optimistically; the change is rolled
+ *   back when the request fails
+ * - `useSuspenseQuery` suspends until the data is there, showing the
+ *   `<Suspense>` fallback of `client/App.tsx`
+ * - Failed requests show a toast (opt out per hook with `toast: false`)
+ *
+ * Queries only run in the browser: during server rendering `useQuery` is
+ * pending and `useSuspenseQuery` leaves its boundary to the client.
+ *
+ * @example
+ * ```tsx
+ * import { api } from "@/lib/api"
+ * import { setQueryData, useMutation, useQuery } from "@/lib/query"
+ *
+ * const { data: files = [], status } = useQuery(["files"], ({ signal }) => api.listFiles({}, { signal }))
+ *
+ * const deleteFile = useMutation((id: number) => api.deleteFile({ params: { id } }), {
+ *   optimistic: (id) => setQueryData<PublicFile[]>(["files"], (files = []) => files.filter((file) => file.id !== id)),
+ *   invalidates: [["files"]],
+ *   toast: "Could not delete the file",
+ * })
+ *
+ * deleteFile.mutate(file.id)
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react"
+import { toast as showToast } from "sonner"
+import { ApiError } from "./api"
+import { isValidationProblem } from "./form-errors"
+
+/**
+ * Identifies cached data; keys starting with the same elements form a group
+ * that can be invalidated together
+ */
+export type QueryKey = readonly unknown[]
+
+export type QueryStatus = "pending" | "success" | "error"
+
+export type QueryFunction<T> = (context: { signal: AbortSignal }) => Promise<T>
+
+export interface QueryOptions {
+  /** Milliseconds the data counts as fresh; stale data is refetched when used (default: 0) */
+  staleTime?: number
+  /** Refetch stale data when the window regains focus (default: true) */
+  refetchOnWindowFocus?: boolean
+  /** While a new key loads, keep returning the previous key's data, e.g. for pagination (default: false) */
+  keepPreviousData?: boolean
+  /** Toast on failure; a string replaces the default title (default: true) */
+  toast?: boolean | string
+}
+
+export interface QueryResult<T> {
+  data: T | undefined
+  error: unknown
+  /** `pending` until the first response, `error` when the last request failed */
+  status: QueryStatus
+  /** A request for this key is in flight, including background refetches */
+  isFetching: boolean
+  /** `data` belongs to the previous key (see `keepPreviousData`) */
+  isPlaceholderData: boolean
+  refetch: () => Promise<void>
+}
+
+export interface MutationOptions<TVariables, TData> {
+  /**
+   * Change cached data before the request is sent, with `setQueryData`;
+   * every change is rolled back when the mutation fails
+   */
+  optimistic?: (variables: TVariables) => void
+  /** Key prefixes to invalidate once the mutation settles */
+  invalidates?: QueryKey[]
+  /** Runs after a successful request; throwing rejects `mutateAsync` but keeps the result */
+  onSuccess?: (data: TData, variables: TVariables) => void | Promise<void>
+  onError?: (error: unknown, variables: TVariables) => void
+  onSettled?: (variables: TVariables) => void
+  /** Toast on failure; a string replaces the default title (default: true) */
+  toast?: boolean | string
+}
+
+export type MutationStatus = "idle" | "pending" | "success" | "error"
+
+export interface MutationResult<TVariables, TData> {
+  /** Run the mutation; failures are toasted and reported through `error` */
+  mutate: (variables: TVariables) => void
+  /** Run the mutation and resolve with its result; rejects on failure */
+  mutateAsync: (variables: TVariables) => Promise<TData>
+  data: TData | undefined
+  error: unknown
+  status: MutationStatus
+  isPending: boolean
+  reset: () => void
+}
+
+interface QueryState<T> {
+  data: T | undefined
+  error: unknown
+  status: QueryStatus
+  isFetching: boolean
+  updatedAt: number
+}
+
+interface Observer {
+  onChange: () => void
+  options: QueryOptions
+}
+
+// Unused entries are kept this long so returning to a page renders instantly
+const GC_TIME_MS = 5 * 60_000
+
+const SUSPENSE_MIN_STALE_MS = 1000
+
+const PENDING_STATE: QueryState<never> = {
+  data: undefined,
+  error: undefined,
+  status: "pending",
+  isFetching: false,
+  updatedAt: 0,
+}
+
+const isBrowser = typeof window !== "undefined"
+
+/**
+ * Stable string for a key; object properties are sorted so `{ a, b }` and
+ * `{ b, a }` hash the same
+ */
+export function hashKey(key: QueryKey) {
+  return JSON.stringify(key, (_name, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  )
+}
+
+/**
+ * Whether `key` starts with the parts of `prefix`, compared like hashes
+ */
+export function matchesPrefix(key: QueryKey, prefix: QueryKey) {
+  return prefix.length <= key.length && prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]))
+}
+
+function isAbort(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError"
+}
+
+/**
+ * Show a failed request as a toast
+ *
+ * Validation problems are left to the form that sent them. Repeated
+ * failures for the same key replace each other instead of piling up.
+ */
+function toastError(error: unknown, option: boolean | string | undefined, defaultTitle: string, id?: string) {
+  if (option === false || isAbort(error)) return
+  if (error instanceof ApiError && isValidationProblem(error.problem)) return
+
+  const description = error instanceof Error ? error.message : "Something went wrong"
+  showToast.error(typeof option === "string" ? option : defaultTitle, { id, description })
+}
+
+class Query<T = unknown> {
+  state: QueryState<T> = PENDING_STATE
+  readonly observers = new Set<Observer>()
+  private invalidated = false
+  private controller: AbortController | undefined
+  private promise: Promise<T> | undefined
+  private gcTimer: number | undefined
+
+  constructor(
+    readonly key: QueryKey,
+    readonly hash: string,
+    public fn: QueryFunction<T>,
+    private readonly onRemove: (query: Query) => void
+  ) {
+    this.scheduleGc()
+  }
+
+  private setState(changes: Partial<QueryState<T>>) {
+    this.state = { ...this.state, ...changes }
+    for (const observer of this.observers) observer.onChange()
+  }
+
+  private scheduleGc() {
+    window.clearTimeout(this.gcTimer)
+    this.gcTimer = window.setTimeout(() => {
+      if (this.observers.size === 0 && !this.promise) this.onRemove(this as Query)
+    }, GC_TIME_MS)
+  }
+
+  /** Observed with the shortest `staleTime` of its observers, otherwise with `unobservedStaleTime` */
+  isStale(unobservedStaleTime = 0) {
+    if (this.invalidated || this.state.status !== "success") return true
+
+    const staleTime = this.observers.size > 0
+      ? Math.min(...[...this.observers].map(({ options }) => options.staleTime ?? 0))
+      : unobservedStaleTime
+    return Date.now() - this.state.updatedAt >= staleTime
+  }
+
+  subscribe(observer: Observer) {
+    this.observers.add(observer)
+    window.clearTimeout(this.gcTimer)
+
+    if (this.isStale()) void this.fetch().catch(() => undefined)
+
+    return () => {
+      this.observers.delete(observer)
+      if (this.observers.size === 0) this.scheduleGc()
+    }
+  }
+
+  /**
+   * Fetch the data, joining the request already in flight
+   *
+   * @param toast - Toast option of the caller; observers' options are used otherwise
+   */
+  fetch(toast?: boolean | string): Promise<T> {
+    if (this.promise) return this.promise
+
+    const controller = new AbortController()
+    const promise = this.fn({ signal: controller.signal }).then(
+      (data) => {
+        if (this.promise !== promise) return data
+
+        this.invalidated = false
+        this.settle()
+        this.setState({ data, error: undefined, status: "success", isFetching: false, updatedAt: Date.now() })
+        return data
+      },
+      (error: unknown) => {
+        if (this.promise !== promise) throw error
+
+        this.settle()
+        // Background refetches keep showing the data they could not refresh
+        this.setState({ error, status: this.state.data === undefined ? "error" : this.state.status, isFetching: false })
+
+        const option = toast ?? [...this.observers].find(({ options }) => options.toast !== undefined)?.options.toast
+        if (toast !== undefined || this.observers.size > 0) {
+          toastError(error, option, "Could not load data", this.hash)
+        }
+        throw error
+      }
+    )
+
+    this.controller = controller
+    this.promise = promise
+    this.setState({ isFetching: true })
+    return promise
+  }
+
+  private settle() {
+    this.promise = undefined
+    this.controller = undefined
+    if (this.observers.size === 0) this.scheduleGc()
+  }
+
+  /** Abort the request in flight; the data it would have replaced stays */
+  cancel() {
+    if (!this.promise) return
+
+    this.controller?.abort()
+    this.settle()
+    this.setState({ isFetching: false })
+  }
+
+  invalidate() {
+    this.invalidated = true
+    if (this.observers.size > 0) {
+      this.cancel()
+      void this.fetch().catch(() => undefined)
+    }
+  }
+
+  setData(data: T | undefined) {
+    this.setState({
+      data,
+      error: undefined,
+      status: data === undefined ? "pending" : "success",
+      updatedAt: Date.now(),
+    })
+  }
+}
+
+class QueryCache {
+  private readonly queries = new Map<string, Query>()
+  private focusListening = false
+
+  build<T>(key: QueryKey, fn: QueryFunction<T>) {
+    const hash = hashKey(key)
+    let query = this.queries.get(hash) as Query<T> | undefined
+
+    if (!query) {
+      query = new Query(key, hash, fn, (removed) => this.remove(removed))
+      this.queries.set(hash, query as Query)
+      this.listenForFocus()
+    }
+
+    // The latest render's function sees the latest props
+    query.fn = fn
+    return query
+  }
+
+  get<T>(key: QueryKey) {
+    return this.queries.get(hashKey(key)) as Query<T> | undefined
+  }
+
+  remove(query: Query) {
+    query.cancel()
+    this.queries.delete(query.hash)
+  }
+
+  findAll(prefix: QueryKey = []) {
+    return [...this.queries.values()].filter((query) => matchesPrefix(query.key, prefix))
+  }
+
+  clear() {
+    for (const query of this.queries.values()) {
+      query.cancel()
+      query.setData(undefined)
+      query.invalidate()
+    }
+  }
+
+  private listenForFocus() {
+    if (this.focusListening) return
+    this.focusListening = true
+
+    const refetchStale = () => {
+      if (document.visibilityState !== "visible") return
+
+      for (const query of this.queries.values()) {
+        const wanted = [...query.observers].some(({ options }) => options.refetchOnWindowFocus !== false)
+        if (wanted && query.isStale()) void query.fetch().catch(() => undefined)
+      }
+    }
+
+    window.addEventListener("focus", refetchStale)
+    document.addEventListener("visibilitychange", refetchStale)
+  }
+}
+
+const cache = new QueryCache()
+
+/**
+ * Read cached data without fetching
+ */
+export function getQueryData<T>(key: QueryKey) {
+  return cache.get<T>(key)?.state.data
+}
+
+/**
+ * Replace cached data, e.g. with the response of a mutation
+ *
+ * A request in flight for the key is aborted so it cannot overwrite the
+ * change. Keys never fetched are left alone.
+ *
+ * @param key - Exact key of the entry
+ * @param updater - New data, or a function of the current data
+ */
+export function setQueryData<T>(key: QueryKey, updater: T | ((current: T | undefined) => T | undefined)) {
+  const query = cache.get<T>(key)
+  if (!query) return
+
+  const data = typeof updater === "function"
+    ? (updater as (current: T | undefined) => T | undefined)(query.state.data)
+    : updater
+
+  query.cancel()
+  query.setData(data)
+}
+
+/**
+ * Mark every entry whose key starts with `prefix` stale
+ *
+ * Entries on screen refetch immediately, the others when next used.
+ * Without a prefix, everything is invalidated.
+ */
+export function invalidateQueries(prefix: QueryKey = []) {
+  for (const query of cache.findAll(prefix)) query.invalidate()
+}
+
+/**
+ * Load data into the cache ahead of time, e.g. when hovering a link
+ *
+ * @param options - `staleTime` of the cached data when nothing on screen uses it (default: 0, always refetch)
+ */
+export async function prefetchQuery<T>(key: QueryKey, fn: QueryFunction<T>, options: Pick<QueryOptions, "staleTime"> = {}) {
+  if (!isBrowser) return
+
+  const query = cache.build(key, fn)
+  if (query.isStale(options.staleTime)) await query.fetch(false).catch(() => undefined)
+}
+
+/**
+ * Forget all cached data and refetch what is on screen
+ *
+ * Called when the signed-in user changes, so nobody sees the previous
+ * user's data.
+ */
+export function resetQueries() {
+  cache.clear()
+}
+
+const noopSubscribe = () => () => undefined
+const getPendingState = () => PENDING_STATE
+
+/**
+ * Fetch and cache data for a key while the component is mounted
+ *
+ * Pass `null` as the key to not fetch (e.g. until an id is known). The
+ * function receives an `AbortSignal`; pass it on to `fetch` or `api.*` so
+ * cancelled requests stop.
+ *
+ * @param key - Cache key, including everything the function depends on
+ * @param fn - Loads the data
+ * @param options - Freshness, focus refetching, pagination and toasts
+ * @returns The cached data and request state
+ */
+export function useQuery<T>(key: QueryKey | null, fn: QueryFunction<T>, options: QueryOptions = {}): QueryResult<T> {
+  const query = key && isBrowser ? cache.build(key, fn) : undefined
+
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!query) return noopSubscribe()
+
+      // Read through the ref so observers see option changes without resubscribing
+      const observer: Observer = {
+        onChange,
+        get options() {
+          return optionsRef.current
+        },
+      }
+      return query.subscribe(observer)
+    },
+    // The cache hands out the same query object for equal keys
+    [query]
+  )
+
+  const state = useSyncExternalStore<QueryState<T>>(
+    subscribe,
+    () => query?.state ?? PENDING_STATE,
+    getPendingState
+  )
+
+  // Data of the last key that had some, for `keepPreviousData`
+  const previousData = useRef<T | undefined>(undefined)
+  useEffect(() => {
+    if (state.data !== undefined) previousData.current = state.data
+  }, [state.data])
+
+  const isPlaceholderData = Boolean(options.keepPreviousData) && state.data === undefined && previousData.current !== undefined
+
+  const refetch = useCallback(async () => {
+    if (!query) return
+    await query.fetch().catch(() => undefined)
+  }, [query])
+
+  return {
+    data: isPlaceholderData ? previousData.current : state.data,
+    error: state.error,
+    status: isPlaceholderData ? "success" : state.status,
+    isFetching: state.isFetching,
+    isPlaceholderData,
+    refetch,
+  }
+}
+
+/**
+ * `useQuery` that suspends until the data is loaded
+ *
+ * The nearest `<Suspense>` boundary shows its fallback meanwhile; a failed
+ * first load is thrown to the nearest error boundary (after the toast).
+ * Not for prerendered routes: the server cannot load the data and leaves
+ * the boundary to the browser.
+ *
+ * @returns The query result with `data` always set
+ */
+export function useSuspenseQuery<T>(
+  key: QueryKey,
+  fn: QueryFunction<T>,
+  options: Omit<QueryOptions, "keepPreviousData"> = {}
+): QueryResult<T> & { data: T } {
+  // The data that ended the suspension is fresh; refetching it on mount would be wasted
+  const result = useQuery(key, fn, { ...options, staleTime: Math.max(options.staleTime ?? 0, SUSPENSE_MIN_STALE_MS) })
+
+  if (!isBrowser) {
+    // React renders the fallback on the server and retries in the browser
+    throw new Error("useSuspenseQuery only loads data in the browser")
+  }
+
+  const query = cache.build(key, fn)
+  const { data, status, error } = query.state
+
+  if (data === undefined) {
+    if (status === "error" && !query.state.isFetching) {
+      // Drop the failed entry so the next mount starts a fresh request
+      if (query.observers.size === 0) cache.remove(query as Query)
+      throw error
+    }
+
+    throw query.fetch(options.toast ?? true).catch(() => undefined)
+  }
+
+  return { ...result, data, status, error }
+}
+
+/**
+ * Run a write request with optimistic updates, invalidation and toasts
+ *
+ * @param fn - Sends the request
+ * @param options - Optimistic update, keys to invalidate and callbacks
+ * @returns Functions to run the mutation and its latest state
+ */
+export function useMutation<TVariables = void, TData = unknown>(
+  fn: (variables: TVariables) => Promise<TData>,
+  options: MutationOptions<TVariables, TData> = {}
+): MutationResult<TVariables, TData> {
+  const [state, setState] = useState<{ data: TData | undefined; error: unknown; status: MutationStatus }>({
+    data: undefined,
+    error: undefined,
+    status: "idle",
+  })
+
+  const fnRef = useRef(fn)
+  fnRef.current = fn
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const mutateAsync = useCallback(async (variables: TVariables) => {
+    const { optimistic, invalidates = [], onSuccess, onError, onSettled } = optionsRef.current
+    setState({ data: undefined, error: undefined, status: "pending" })
+
+    // Snapshot the cache around the optimistic update to know what to roll back
+    const rollbacks: (() => void)[] = []
+    if (optimistic) {
+      const before = new Map(cache.findAll().map((query) => [query, query.state.data]))
+      optimistic(variables)
+
+      for (const [query, previous] of before) {
+        const applied = query.state.data
+        if (applied === previous) continue
+
+        rollbacks.push(() => {
+          // A refetch that already replaced the optimistic data is newer than the snapshot
+          if (query.state.data === applied) query.setData(previous)
+        })
+      }
+    }
+
+    const settle = () => {
+      for (const prefix of invalidates) invalidateQueries(prefix)
+      onSettled?.(variables)
+    }
+
+    let data: TData
+    try {
+      data = await fnRef.current(variables)
+    } catch (error) {
+      for (const rollback of rollbacks) rollback()
+
+      setState({ data: undefined, error, status: "error" })
+      onError?.(error, variables)
+      settle()
+      throw error
+    }
+
+    // The server applied the mutation; a throwing `onSuccess` must not undo that
+    setState({ data, error: undefined, status: "success" })
+    try {
+      await onSuccess?.(data, variables)
+    } finally {
+      settle()
+    }
+    return data
+  }, [])
+
+  const mutate = useCallback(
+    (variables: TVariables) => {
+      mutateAsync(variables).catch((error: unknown) => {
+        toastError(error, optionsRef.current.toast, "Request failed")
+      })
+    },
+    [mutateAsync]
+  )
+
+  const reset = useCallback(() => setState({ data: undefined, error: undefined, status: "idle" }), [])
+
+  return { ...state, isPending: state.status === "pending", mutate, mutateAsync, reset }
+}
@@ -0,0 +1,275 @@
+/**
+ * Realtime Client
+ *
+ * One shared connection per page to the server's realtime endpoint, with
+ * `useSubscription(topic)` for components. The connection opens with the
+ * first subscription, closes with the last, and reconnects with
+ * exponential backoff, resubscribing to every topic.
+ *
+ * A WebSocket is preferred; when it cannot connect at all (the upgrade is
+ * blocked somewhere on the way), the client switches to Server-Sent Events
+ * for the rest of the page's life.
+ *
+ * @example
+ * ```tsx
+ * import { useSubscription } from "@/lib/realtime"
+ *
+ * const { data: notification } = useSubscription<Notification>(`user:${user.id}`, {
+ *   onMessage: (notification) => toast(notification.title),
+ * })
+ * ```
+ */
+
+import { useEffect, useRef, useState } from "react"
+import { REALTIME_EVENTS_PATH, REALTIME_PATH, type ServerMessage } from "../../shared/realtime"
+
+export type SubscriptionStatus = "idle" | "connecting" | "subscribed" | "error"
+
+interface TopicListener {
+  onMessage: (payload: unknown) => void
+  onStatus: (status: SubscriptionStatus, error?: string) => void
+}
+
+const MIN_RETRY_MS = 500
+const MAX_RETRY_MS = 30_000
+// WebSocket attempts that must fail before ever opening to fall back to SSE
+const FALLBACK_AFTER_FAILURES = 2
+
+class RealtimeConnection {
+  private readonly topics = new Map<string, Set<TopicListener>>()
+  private readonly subscribed = new Set<string>()
+  private transport: "websocket" | "sse" = typeof WebSocket === "undefined" ? "sse" : "websocket"
+  private socket: WebSocket | undefined
+  private source: EventSource | undefined
+  private retryTimer: number | undefined
+  private attempt = 0
+  private everOpened = false
+
+  subscribe(topic: string, listener: TopicListener) {
+    let listeners = this.topics.get(topic)
+    const isNew = !listeners
+
+    if (!listeners) {
+      listeners = new Set()
+      this.topics.set(topic, listeners)
+    }
+    listeners.add(listener)
+
+    if (this.subscribed.has(topic)) {
+      listener.onStatus("subscribed")
+    } else {
+      listener.onStatus("connecting")
+    }
+
+    if (isNew) this.topicsChanged({ added: topic })
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size > 0) return
+
+      this.topics.delete(topic)
+      this.subscribed.delete(topic)
+      this.topicsChanged({ removed: topic })
+    }
+  }
+
+  /**
+   * Drop the connection and open a new one, e.g. after signing in or out,
+   * since the server authenticates a connection once
+   */
+  reconnect() {
+    if (!this.socket && !this.source) return
+    this.close()
+    this.connect()
+  }
+
+  private topicsChanged(change: { added?: string; removed?: string }) {
+    if (this.topics.size === 0) {
+      this.close()
+      return
+    }
+
+    if (this.transport === "sse") {
+      // An event stream's topics are fixed, so open a new one
+      this.close()
+      this.connect()
+      return
+    }
+
+    if (!this.socket) {
+      this.connect()
+      return
+    }
+
+    if (this.socket.readyState === WebSocket.OPEN) {
+      if (change.added) this.send({ type: "subscribe", topic: change.added })
+      if (change.removed) this.send({ type: "unsubscribe", topic: change.removed })
+    }
+  }
+
+  private connect() {
+    window.clearTimeout(this.retryTimer)
+    this.retryTimer = undefined
+
+    if (this.transport === "websocket") {
+      this.connectWebSocket()
+    } else {
+      this.connectEventSource()
+    }
+  }
+
+  private connectWebSocket() {
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:"
+    const socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`)
+    this.socket = socket
+
+    socket.addEventListener("open", () => {
+      this.attempt = 0
+      this.everOpened = true
+      for (const topic of this.topics.keys()) this.send({ type: "subscribe", topic })
+    })
+    socket.addEventListener("message", (event) => {
+      this.receive(JSON.parse(String(event.data)) as ServerMessage)
+    })
+    socket.addEventListener("close", () => {
+      if (this.socket !== socket) return
+      this.socket = undefined
+
+      if (!this.everOpened && this.attempt + 1 >= FALLBACK_AFTER_FAILURES) {
+        this.transport = "sse"
+      }
+      this.connectionLost()
+    })
+  }
+
+  private connectEventSource() {
+    const query = new URLSearchParams([...this.topics.keys()].map((topic) => ["topic", topic]))
+    const source = new EventSource(`${REALTIME_EVENTS_PATH}?${query}`)
+    this.source = source
+
+    source.addEventListener("open", () => {
+      this.attempt = 0
+    })
+    source.addEventListener("message", (event: MessageEvent<string>) => {
+      this.receive(JSON.parse(event.data) as ServerMessage)
+    })
+    source.addEventListener("error", () => {
+      // EventSource retries on its own without backoff; take over instead
+      source.close()
+      if (this.source !== source) return
+      this.source = undefined
+      this.connectionLost()
+    })
+  }
+
+  private connectionLost() {
+    this.subscribed.clear()
+    this.notifyAll("connecting")
+
+    if (this.topics.size === 0) return
+
+    // Exponential backoff with jitter, so a restarting server is not hit by every client at once
+    const delay = Math.min(MAX_RETRY_MS, MIN_RETRY_MS * 2 ** this.attempt)
+    this.attempt += 1
+    this.retryTimer = window.setTimeout(() => this.connect(), delay / 2 + Math.random() * (delay / 2))
+  }
+
+  private close() {
+    window.clearTimeout(this.retryTimer)
+    this.retryTimer = undefined
+
+    const { socket, source } = this
+    this.socket = undefined
+    this.source = undefined
+    socket?.close()
+    source?.close()
+    this.subscribed.clear()
+  }
+
+  private send(message: { type: "subscribe" | "unsubscribe"; topic: string }) {
+    this.socket?.send(JSON.stringify(message))
+  }
+
+  private receive(message: ServerMessage) {
+    if (message.type === "message") {
+      this.topics.get(message.topic)?.forEach((listener) => listener.onMessage(message.payload))
+      return
+    }
+
+    if (message.type === "subscribed") {
+      this.subscribed.add(message.topic)
+      this.topics.get(message.topic)?.forEach((listener) => listener.onStatus("subscribed"))
+      return
+    }
+
+    if (message.topic) {
+      this.topics.get(message.topic)?.forEach((listener) => listener.onStatus("error", message.message))
+    } else {
+      console.error("❌ Realtime error:", message.message)
+    }
+  }
+
+  private notifyAll(status: SubscriptionStatus) {
+    for (const listeners of this.topics.values()) {
+      listeners.forEach((listener) => listener.onStatus(status))
+    }
+  }
+}
+
+const connection = new RealtimeConnection()
+
+/**
+ * Reconnect the shared connection so the server sees the current session
+ */
+export function reconnectRealtime() {
+  connection.reconnect()
+}
+
+export interface SubscriptionOptions<T> {
+  /** Called for every message, including repeats of the same value */
+  onMessage?: (payload: T) => void
+}
+
+export interface SubscriptionState<T> {
+  /** Latest payload received on the topic */
+  data: T | undefined
+  status: SubscriptionStatus
+  /** Why the server refused the subscription */
+  error: string | undefined
+}
+
+/**
+ * Subscribe to a realtime topic while the component is mounted
+ *
+ * Pass `null` to stay unsubscribed (e.g. until the user is known).
+ * Payloads are not validated; parse them with a zod schema when they come
+ * from untrusted publishers.
+ *
+ * @param topic - Topic such as `user:42`
+ * @param options - Message callback
+ * @returns Latest payload and the subscription status
+ */
+export function useSubscription<T = unknown>(topic: string | null, options: SubscriptionOptions<T> = {}): SubscriptionState<T> {
+  const [state, setState] = useState<SubscriptionState<T>>({ data: undefined, status: "idle", error: undefined })
+  const onMessageRef = useRef(options.onMessage)
+  onMessageRef.current = options.onMessage
+
+  useEffect(() => {
+    if (!topic) {
+      setState({ data: undefined, status: "idle", error: undefined })
+      return
+    }
+
+    return connection.subscribe(topic, {
+      onMessage: (payload) => {
+        setState((current) => ({ ...current, data: payload as T }))
+        onMessageRef.current?.(payload as T)
+      },
+      onStatus: (status, error) => {
+        setState((current) => ({ ...current, status, error }))
+      },
+    })
+  }, [topic])
+
+  return state
+}
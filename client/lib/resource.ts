@@ -0,0 +1,45 @@
+/**
+ * Resource Client
+ *
+ * Reads the generic CRUD resources the server mounts with `resource(table)`
+ * (see `server/resource.ts`). The list query format lives in
+ * `shared/resource.ts`.
+ *
+ * @example
+ * ```tsx
+ * import { fetchResourcePage } from "@/lib/resource"
+ *
+ * const { data } = useQuery(["posts", query], ({ signal }) => fetchResourcePage<Post>("/posts", query, { signal }))
+ * ```
+ */
+
+import { buildResourceQuery, type ResourceListQuery, type ResourcePage } from "../../shared/resource"
+import { ApiError, readProblem } from "./api"
+
+/**
+ * Fetch one page of a resource list
+ *
+ * The rows are not validated; parse the response with `resourcePageSchema`
+ * when their shape matters.
+ *
+ * @param path - Mount path below `/api`, e.g. `/posts`
+ * @param query - Paging, sorting, fields and filters
+ * @param init - Extra fetch options such as an abort `signal`
+ * @throws {ApiError} For every non-2xx response
+ */
+export async function fetchResourcePage<T>(path: string, query: ResourceListQuery = {}, init: RequestInit = {}) {
+  const headers = new Headers(init.headers)
+  headers.set("Accept", "application/json")
+
+  const response = await fetch(`/api${path}${buildResourceQuery(query)}`, {
+    credentials: "same-origin",
+    ...init,
+    headers,
+  })
+
+  if (!response.ok) {
+    throw new ApiError(await readProblem(response))
+  }
+
+  return (await response.json()) as ResourcePage<T>
+}
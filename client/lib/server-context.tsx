@@ -0,0 +1,47 @@
+/**
+ * Server Rendering Context
+ *
+ * Lets components influence the HTTP response while they are rendered on the
+ * server (see `client/entry-server.tsx`). In the browser there is no provider
+ * and every hook here is a no-op.
+ *
+ * @example
+ * ```tsx
+ * const NotFoundPage = () => {
+ *   useStatusCode(404)
+ *   return <h1>Page Not Found</h1>
+ * }
+ * ```
+ */
+
+import { createContext, useContext } from "react"
+
+import type { ResolvedHead } from "@/lib/document-head"
+
+/**
+ * Response details collected during a server render
+ */
+export interface ServerContextValue {
+  /** HTTP status of the page (default: 200) */
+  statusCode: number
+  /** Title and meta tags set with `useDocumentHead`, written into the page by the server */
+  head?: ResolvedHead
+}
+
+export const ServerContext = createContext<ServerContextValue | null>(null)
+
+/**
+ * Set the HTTP status of a server-rendered page
+ *
+ * Only takes effect when called while the page shell renders, i.e. outside
+ * of a suspended `<Suspense>` boundary.
+ *
+ * @param statusCode - Status to respond with, e.g. 404
+ */
+export function useStatusCode(statusCode: number) {
+  const context = useContext(ServerContext)
+
+  if (context) {
+    context.statusCode = statusCode
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * File Uploads
+ *
+ * Sends files to `POST /api/files` with upload progress. `fetch` cannot
+ * report the progress of a request body, so this uses `XMLHttpRequest`; the
+ * response is parsed with the contract's schema and failures throw the same
+ * `ApiError` as the `api` client.
+ *
+ * @example
+ * ```tsx
+ * import { uploadFile } from "@/lib/upload"
+ *
+ * const stored = await uploadFile(file, {
+ *   onProgress: (fraction) => setProgress(fraction * 100),
+ * })
+ * ```
+ */
+
+import { contract } from "../../shared/api"
+import type { PublicFile } from "../../shared/schema"
+import { ApiError, type ProblemDetails } from "@/lib/api"
+
+export interface UploadOptions {
+  /** Called with the fraction of the file sent so far, from 0 to 1 */
+  onProgress?: (fraction: number) => void
+  /** Aborts the upload; the promise rejects with an `AbortError` */
+  signal?: AbortSignal
+  /** Endpoint receiving the form (default: "/api/files") */
+  url?: string
+}
+
+function toProblem(xhr: XMLHttpRequest): ProblemDetails {
+  const fallback = { type: "about:blank", title: xhr.statusText || "Upload failed", status: xhr.status }
+
+  try {
+    return { ...fallback, ...(JSON.parse(xhr.responseText) as Partial<ProblemDetails>), status: xhr.status }
+  } catch {
+    return fallback
+  }
+}
+
+/**
+ * Upload a single file
+ *
+ * @param file - File picked or dropped by the user
+ * @param options - Progress callback and abort signal
+ * @returns The stored file
+ * @throws {ApiError} When the server rejects the upload (size, type, session, ...)
+ */
+export function uploadFile(file: File, { onProgress, signal, url = "/api/files" }: UploadOptions = {}) {
+  return new Promise<PublicFile>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("The upload was aborted", "AbortError"))
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    const form = new FormData()
+    form.append("file", file)
+
+    const abort = () => xhr.abort()
+    signal?.addEventListener("abort", abort, { once: true })
+
+    xhr.upload.addEventListener("progress", (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total)
+    })
+
+    xhr.addEventListener("load", () => {
+      signal?.removeEventListener("abort", abort)
+
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new ApiError(toProblem(xhr)))
+        return
+      }
+
+      try {
+        const [stored] = contract.uploadFiles.response.parse(JSON.parse(xhr.responseText))
+        onProgress?.(1)
+        resolve(stored)
+      } catch (error) {
+        reject(error)
+      }
+    })
+    xhr.addEventListener("error", () => {
+      signal?.removeEventListener("abort", abort)
+      reject(new TypeError("Network error while uploading"))
+    })
+    xhr.addEventListener("abort", () => {
+      reject(new DOMException("The upload was aborted", "AbortError"))
+    })
+
+    xhr.open("POST", url)
+    xhr.setRequestHeader("Accept", "application/json")
+    xhr.send(form)
+  })
+}
+
+/**
+ * URL serving a stored file's contents
+ */
+export function fileContentUrl(file: Pick<PublicFile, "id">) {
+  return `/api/files/${file.id}/content`
+}
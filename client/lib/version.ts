@@ -0,0 +1,44 @@
+/**
+ * Build Version
+ *
+ * The version embedded in this bundle at build time, and the prompt shown
+ * when the deployed version no longer matches it. Once a new build is
+ * deployed, the chunks this bundle references are gone, so the only fix is
+ * a full reload.
+ */
+
+import { toast } from "sonner"
+
+/**
+ * Version of the running bundle, compared with `GET /api/version`
+ */
+export const APP_VERSION = __APP_VERSION__
+
+const UPDATE_TOAST_ID = "new-version"
+
+// Messages for failed dynamic imports differ per browser
+const CHUNK_LOAD_ERROR = /Failed to fetch dynamically imported module|error loading dynamically imported module|Importing a module script failed|Unable to preload CSS/i
+
+/**
+ * Whether an error comes from a lazy chunk that could not be loaded
+ */
+export function isChunkLoadError(error: unknown) {
+  return error instanceof Error && CHUNK_LOAD_ERROR.test(error.message)
+}
+
+/**
+ * Ask the user to reload into the new version
+ *
+ * Stays open until dismissed; repeated calls reuse the same toast.
+ */
+export function showUpdatePrompt() {
+  toast("A new version is available", {
+    id: UPDATE_TOAST_ID,
+    description: "Reload the page to get the latest changes.",
+    duration: Infinity,
+    action: {
+      label: "Reload",
+      onClick: () => window.location.reload(),
+    },
+  })
+}
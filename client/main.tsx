@@ -2,20 +2,21 @@
  * Client-Side Entry Point
  * 
  * This file serves as the entry point for the client-side React application.
- * It renders the React app directly in the browser for optimal performance
- * and simplicity.
+ * It renders the React app directly in the browser, or hydrates the markup
+ * rendered by `client/entry-server.tsx` when the server runs in SSR mode.
  */
 
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import App from './App'
+import { AuthProvider } from './components/auth/auth-provider'
 import './index.css'
 
 /**
  * Initialize the React application on the client side
  * 
- * This function renders the React application in the browser.
- * No server-side rendering complexity - just clean client-side React.
+ * Hydrates server-rendered markup when the root container already has
+ * content, and renders from scratch otherwise.
  */
 function initializeApp() {
   const container = document.getElementById('root')
@@ -26,17 +27,24 @@ function initializeApp() {
   }
   
   try {
-    const root = createRoot(container)
-    root.render(
+    const app = (
       <BrowserRouter
         future={{
           v7_relativeSplatPath: true,
           v7_startTransition: true,
         }}
       >
-        <App />
+        <AuthProvider>
+          <App />
+        </AuthProvider>
       </BrowserRouter>
     )
+
+    if (container.firstElementChild) {
+      hydrateRoot(container, app)
+    } else {
+      createRoot(container).render(app)
+    }
   } catch (error) {
     console.error('❌ Failed to initialize React application:', error)
   }
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview LoginPage component - Sign-in form
+ *
+ * Signs the user in with email and password and returns them to the page
+ * they originally asked for (the `redirectTo` query parameter).
+ */
+
+import React from "react";
+import { Link, Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useAuth } from "@/components/auth/auth-provider";
+import { REDIRECT_PARAM, readRedirectTarget } from "@/components/auth/redirect-target";
+import { ApiError } from "@/lib/api";
+import { useDocumentHead } from "@/lib/document-head";
+import { isValidationProblem, setServerErrors } from "@/lib/form-errors";
+import { RedirectPaths } from "@/constants/redirects";
+import { loginSchema } from "../../shared/schema";
+
+/**
+ * LoginPage Component
+ *
+ * Renders the sign-in card. Field errors from the server are shown under
+ * the matching input; other failures (such as wrong credentials) are shown
+ * above the form. Already signed-in users are sent straight on.
+ *
+ * @returns {JSX.Element} The rendered login page
+ */
+const LoginPage: React.FC = () => {
+  const { status, login } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const redirectTarget = readRedirectTarget(searchParams);
+
+  useDocumentHead({ title: "Sign in", description: "Sign in to your account." });
+
+  const form = useForm({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const onSubmit = form.handleSubmit(async (values) => {
+    try {
+      await login(values);
+      navigate(redirectTarget, { replace: true });
+    } catch (error) {
+      if (error instanceof ApiError && isValidationProblem(error.problem)) {
+        setServerErrors(form.setError, error.problem, ["email", "password"]);
+      } else {
+        form.setError("root.server", {
+          type: "server",
+          message: error instanceof Error ? error.message : "Something went wrong",
+        });
+      }
+    }
+  });
+
+  if (status === "authenticated") {
+    return <Navigate to={redirectTarget} replace />;
+  }
+
+  const serverError = form.formState.errors.root?.server?.message;
+  const registerPath = searchParams.has(REDIRECT_PARAM)
+    ? `${RedirectPaths.toRegister}?${new URLSearchParams({ [REDIRECT_PARAM]: redirectTarget })}`
+    : RedirectPaths.toRegister;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>Enter your email and password to continue.</CardDescription>
+        </CardHeader>
+
+        <Form {...form}>
+          <form onSubmit={onSubmit} noValidate>
+            <CardContent className="space-y-4">
+              {serverError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{serverError}</AlertDescription>
+                </Alert>
+              )}
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+
+            <CardFooter className="flex flex-col gap-4">
+              <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Signing in..." : "Sign in"}
+              </Button>
+              <p className="text-sm text-muted-foreground">
+                No account yet?{" "}
+                <Link to={registerPath} className="text-primary underline-offset-4 hover:underline">
+                  Create one
+                </Link>
+              </p>
+            </CardFooter>
+          </form>
+        </Form>
+      </Card>
+    </div>
+  );
+};
+
+export default LoginPage;
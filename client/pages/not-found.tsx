@@ -12,6 +12,8 @@ import React from "react";
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Home } from "lucide-react";
+import { useStatusCode } from "@/lib/server-context";
+import { useDocumentHead } from "@/lib/document-head";
 
 /**
  * NotFoundPage Component
@@ -22,6 +24,8 @@ import { Home } from "lucide-react";
  * - Descriptive error message
  * - Home navigation button with icon
  *
+ * When rendered on the server, the response status is 404.
+ *
  * The component uses Tailwind CSS for styling and provides a responsive
  * design that works across different screen sizes.
  *
@@ -34,6 +38,9 @@ import { Home } from "lucide-react";
  * ```
  */
 const NotFoundPage: React.FC = () => {
+  useStatusCode(404);
+  useDocumentHead({ title: "Page Not Found" });
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center px-4">
       <div className="max-w-md mx-auto text-center">
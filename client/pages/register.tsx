@@ -0,0 +1,165 @@
+/**
+ * @fileoverview RegisterPage component - Account creation form
+ *
+ * Creates an account, signs the new user in and returns them to the page
+ * they originally asked for (the `redirectTo` query parameter).
+ */
+
+import React from "react";
+import { Link, Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useAuth } from "@/components/auth/auth-provider";
+import { REDIRECT_PARAM, readRedirectTarget } from "@/components/auth/redirect-target";
+import { ApiError } from "@/lib/api";
+import { useDocumentHead } from "@/lib/document-head";
+import { isValidationProblem, setServerErrors } from "@/lib/form-errors";
+import { RedirectPaths } from "@/constants/redirects";
+import { registerSchema } from "../../shared/schema";
+
+/**
+ * RegisterPage Component
+ *
+ * Renders the registration card. Field errors from the server (such as a
+ * rejected email) are shown under the matching input; other failures (such
+ * as an email that is already taken) are shown above the form.
+ *
+ * @returns {JSX.Element} The rendered registration page
+ */
+const RegisterPage: React.FC = () => {
+  const { status, register } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const redirectTarget = readRedirectTarget(searchParams);
+
+  useDocumentHead({ title: "Create an account", description: "Create an account to get started." });
+
+  const form = useForm({
+    resolver: zodResolver(registerSchema),
+    defaultValues: { name: "", email: "", password: "" },
+  });
+
+  const onSubmit = form.handleSubmit(async (values) => {
+    try {
+      await register(values);
+      navigate(redirectTarget, { replace: true });
+    } catch (error) {
+      if (error instanceof ApiError && isValidationProblem(error.problem)) {
+        setServerErrors(form.setError, error.problem, ["name", "email", "password"]);
+      } else {
+        form.setError("root.server", {
+          type: "server",
+          message: error instanceof Error ? error.message : "Something went wrong",
+        });
+      }
+    }
+  });
+
+  if (status === "authenticated") {
+    return <Navigate to={redirectTarget} replace />;
+  }
+
+  const serverError = form.formState.errors.root?.server?.message;
+  const loginPath = searchParams.has(REDIRECT_PARAM)
+    ? `${RedirectPaths.toLogin}?${new URLSearchParams({ [REDIRECT_PARAM]: redirectTarget })}`
+    : RedirectPaths.toLogin;
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Create an account</CardTitle>
+          <CardDescription>Sign up with your name, email and a password.</CardDescription>
+        </CardHeader>
+
+        <Form {...form}>
+          <form onSubmit={onSubmit} noValidate>
+            <CardContent className="space-y-4">
+              {serverError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{serverError}</AlertDescription>
+                </Alert>
+              )}
+
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+
+            <CardFooter className="flex flex-col gap-4">
+              <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Creating account..." : "Create account"}
+              </Button>
+              <p className="text-sm text-muted-foreground">
+                Already have an account?{" "}
+                <Link to={loginPath} className="text-primary underline-offset-4 hover:underline">
+                  Sign in
+                </Link>
+              </p>
+            </CardFooter>
+          </form>
+        </Form>
+      </Card>
+    </div>
+  );
+};
+
+export default RegisterPage;
@@ -13,4 +13,7 @@ interface ImportMeta {
     accept(dep: string, cb: (mod: any) => void): void
     accept(deps: string[], cb: (mods: any[]) => void): void
   }
-}
\ No newline at end of file
+}
+
+/** Version of this bundle, stamped by `vite.config.ts` (`development` in dev mode) */
+declare const __APP_VERSION__: string
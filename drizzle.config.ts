@@ -3,16 +3,23 @@
  * 
  * This configuration defines how Drizzle Kit should handle database
  * migrations, schema generation, and connection settings for PostgreSQL.
+ * The connection string comes from the validated server config, so
+ * `DATABASE_URL` must be set in `.env` or the environment.
  * 
  * @fileoverview Drizzle Kit configuration
  */
 import { defineConfig } from 'drizzle-kit';
+import { config } from './server/config';
+
+if (!config.database.url) {
+  throw new Error('DATABASE_URL must be set to run drizzle-kit commands');
+}
 
 export default defineConfig({
   schema: './shared/schema.ts',
   out: './server/db/migrations',
   dialect: 'postgresql',
   dbCredentials: {
-    url: process.env.DATABASE_URL || 'postgresql://localhost:5432/makeinc'
+    url: config.database.url
   }
-});
\ No newline at end of file
+});
@@ -9,50 +9,107 @@
  * - Development: Vite integration, HMR, live reload
  * - Production: Static file serving, optimized builds
  * - Universal: API routes, SPA routing, TypeScript support
+ * - SSR: opt-in server rendering with hydration (`SSR=true`)
+ * - Database: PostgreSQL connection verified at startup when DATABASE_URL is set
+ * - Realtime: topic pub/sub over WebSockets (SSE fallback) on the same server as Vite HMR
+ * - Jobs: Postgres-backed background job worker (unless JOBS_INLINE_WORKER=false)
+ * - Security: CSP with per-request nonces, HSTS and allowlist-driven CORS for /api
+ * - Errors: problem+json responses with a correlation id for every request
+ * - Logging: structured logs with request ids and an access log
+ * - Shutdown: SIGTERM/SIGINT drain in-flight requests, then close Vite, the db pool, ...
  * 
  * Note: This file is responsible for setting up the server and should not be modified unless necessary.
  */
 
-import dotenv from 'dotenv'
-dotenv.config()
-
+import { config } from './config.js'
 import express from 'express'
+import cookieParser from 'cookie-parser'
 import { createServer as createHttpServer } from 'http'
 import { registerRoutes } from './routes/index.js'
-import { setupVite, serveStatic, log } from './vite.js'
+import { setupVite, serveStatic } from './vite.js'
+import { logger } from './logger.js'
+import { connectDatabase, isDatabaseConfigured } from './db/index.js'
+import { requestId } from './middleware/request-id.js'
+import { accessLog } from './middleware/access-log.js'
+import { securityHeaders } from './middleware/security-headers.js'
+import { cors } from './middleware/cors.js'
+import { errorHandler } from './middleware/error-handler.js'
+import { notFound } from './middleware/not-found.js'
+import { getBuildInfo } from './version.js'
+import { startWorker } from './jobs/index.js'
+import { attachRealtime } from './realtime/index.js'
+import { connectionDraining, setupGracefulShutdown } from './shutdown.js'
+
+const { isDev, port: PORT } = config
 
-const isDev = process.env.NODE_ENV !== 'production'
-const PORT = process.env.PORT || 3000
+const log = logger.child({ source: 'express' })
 
 async function createServer() {
   const app = express()
   const server = createHttpServer(app)
+
+  // Behind a load balancer, derive `req.ip` from X-Forwarded-For (used by rate limits)
+  app.set('trust proxy', config.trustProxy)
+  app.disable('x-powered-by')
+
+  // Connect to the database before accepting any traffic
+  if (isDatabaseConfigured()) {
+    await connectDatabase()
+  } else {
+    log.info('ℹ️ DATABASE_URL not set, skipping database connection')
+  }
+
+  // Background jobs live in Postgres; see server/worker.ts to run them in a separate process
+  if (isDatabaseConfigured() && config.jobs.inlineWorker) {
+    startWorker()
+  }
   
   // Configure Express middleware
+  app.use(requestId)
+  app.use(accessLog({
+    // Vite serves every source module over HTTP in development; keep those out of the log
+    skip: (req) => isDev && (req.path.startsWith('/@') || req.path.startsWith('/node_modules/') || /\.\w+$/.test(req.path)),
+  }))
+  app.use(connectionDraining)
+  app.use(securityHeaders({ isDev }))
+  app.use('/api', cors({ origins: config.cors.origins }))
   app.use(express.json())
   app.use(express.urlencoded({ extended: true }))
+  app.use(cookieParser())
 
   // Register all API routes
   await registerRoutes(app)
 
+  // WebSocket upgrades at /api/realtime; other upgrades are left to Vite's HMR in development
+  attachRealtime(server, { passThroughUpgrades: isDev })
+
   if (isDev) {
     // Development mode with enhanced Vite integration
     await setupVite(app, server)
   } else {
     // Production mode with static file serving
-    serveStatic(app)
+    await serveStatic(app)
   }
 
+  // Anything left (non-HTML requests for missing files) is a 404
+  app.use(notFound)
+
+  // Render every error as application/problem+json (must be registered last)
+  app.use(errorHandler)
+
+  // Drain in-flight requests and run cleanup hooks on SIGTERM/SIGINT
+  setupGracefulShutdown(server, { timeout: config.shutdownTimeoutMs })
+
   server.listen(PORT, () => {
     if (isDev) {
-      log('🔥 Development server started!')
-      log(`🚀 Server running on http://localhost:${PORT}`)
-      log(`🔗 API routes available at http://localhost:${PORT}/api`)
-      log('🎨 Tailwind CSS with hot reload active')
-      log('📦 TypeScript compilation on-the-fly')
+      log.info('🔥 Development server started!')
+      log.info(`🚀 Server running on http://localhost:${PORT}`)
+      log.info(`🔗 API routes available at http://localhost:${PORT}/api`)
+      log.info('🎨 Tailwind CSS with hot reload active')
+      log.info('📦 TypeScript compilation on-the-fly')
     } else {
-      log(`🚀 Production server running on http://localhost:${PORT}`)
-      log(`🔗 API routes available at http://localhost:${PORT}/api`)
+      log.info(`🚀 Production server running on http://localhost:${PORT}`, { version: getBuildInfo().version })
+      log.info(`🔗 API routes available at http://localhost:${PORT}/api`)
     }
   })
 
@@ -60,7 +117,7 @@ async function createServer() {
 }
 
 createServer().catch((error) => {
-  console.error(`❌ Failed to start ${isDev ? 'development' : 'production'} server:`, error)
+  log.error(`❌ Failed to start ${isDev ? 'development' : 'production'} server`, { err: error })
   process.exit(1)
 })
 
@@ -0,0 +1,60 @@
+/**
+ * Authentication Middleware
+ *
+ * `authenticate` resolves the session cookie to a user for every API request,
+ * and `requireAuth` rejects requests without one. The resolved user is
+ * available as `req.user` in route handlers.
+ *
+ * @example
+ * ```ts
+ * router.get('/projects', requireAuth, asyncHandler(async (req, res) => {
+ *   res.json(await listProjectsFor(req.user!.id))
+ * }))
+ * ```
+ */
+
+import type { NextFunction, Request, Response } from 'express'
+import type { PublicUser } from '../../shared/schema.js'
+import { UnauthorizedError } from '../errors.js'
+import { asyncHandler } from '../middleware/async-handler.js'
+import { SESSION_COOKIE, getSessionUser } from './sessions.js'
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Signed-in user, set by `authenticate` when the session cookie is valid */
+    user?: PublicUser
+  }
+}
+
+/**
+ * Attach the signed-in user to the request, if any
+ *
+ * Requests without a session cookie never touch the database.
+ */
+export const authenticate = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const token: unknown = req.cookies?.[SESSION_COOKIE]
+
+  if (!req.user && typeof token === 'string') {
+    req.user = await getSessionUser(res, token)
+  }
+
+  next()
+})
+
+/**
+ * Reject requests that are not authenticated with a 401
+ *
+ * Runs `authenticate` itself, so it also works on routers
+ * that are not mounted behind it.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  authenticate(req, res, (error?: unknown) => {
+    if (error) {
+      next(error)
+    } else if (!req.user) {
+      next(new UnauthorizedError())
+    } else {
+      next()
+    }
+  })
+}
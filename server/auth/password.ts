@@ -0,0 +1,65 @@
+/**
+ * Password Hashing
+ *
+ * Hashes and verifies passwords with Node's built-in scrypt. Hashes are
+ * self-describing (`scrypt$N$r$p$salt$hash`) so the cost parameters can be
+ * raised later without invalidating existing passwords.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto'
+
+const KEY_LENGTH = 64
+const SALT_LENGTH = 16
+
+// Cost parameters recommended by OWASP for scrypt
+const DEFAULT_OPTIONS = { N: 2 ** 17, r: 8, p: 1 }
+
+function deriveKey(password: string, salt: Buffer, options: Required<Pick<ScryptOptions, 'N' | 'r' | 'p'>>) {
+  return new Promise<Buffer>((resolve, reject) => {
+    // maxmem must cover 128 * N * r bytes, plus some headroom
+    const maxmem = 128 * options.N * options.r * 2
+
+    scrypt(password, salt, KEY_LENGTH, { ...options, maxmem }, (error, key) => {
+      if (error) reject(error)
+      else resolve(key)
+    })
+  })
+}
+
+/**
+ * Hash a password for storage
+ *
+ * @param password - Plain text password
+ * @returns Encoded hash including the salt and cost parameters
+ */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(SALT_LENGTH)
+  const key = await deriveKey(password, salt, DEFAULT_OPTIONS)
+  const { N, r, p } = DEFAULT_OPTIONS
+
+  return ['scrypt', N, r, p, salt.toString('base64url'), key.toString('base64url')].join('$')
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ *
+ * @param password - Plain text password to check
+ * @param stored - Hash produced by `hashPassword`
+ * @returns True when the password matches
+ */
+export async function verifyPassword(password: string, stored: string) {
+  const [algorithm, N, r, p, salt, hash] = stored.split('$')
+
+  if (algorithm !== 'scrypt' || !hash) {
+    return false
+  }
+
+  const expected = Buffer.from(hash, 'base64url')
+  const key = await deriveKey(password, Buffer.from(salt, 'base64url'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  })
+
+  return key.length === expected.length && timingSafeEqual(key, expected)
+}
@@ -0,0 +1,103 @@
+/**
+ * Session Store
+ *
+ * Persists login sessions in the `sessions` table and manages the httpOnly
+ * cookie that carries the session token.
+ *
+ * Features:
+ * - Opaque tokens: 32 random bytes, only their SHA-256 hash is stored
+ * - Sliding expiry: sessions are extended once half their lifetime has passed
+ * - Secure cookies: httpOnly, SameSite=Lax, and Secure in production
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { CookieOptions, Response } from 'express'
+import { and, eq, gt } from 'drizzle-orm'
+import { config } from '../config.js'
+import { db } from '../db/index.js'
+import { sessions, users, type PublicUser, type User } from '../../shared/schema.js'
+
+export const SESSION_COOKIE = 'sid'
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+const cookieOptions: CookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax',
+  secure: config.isProduction,
+  path: '/',
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Strip the password hash from a user row before it leaves the server
+ */
+export function toPublicUser({ passwordHash: _passwordHash, ...user }: User): PublicUser {
+  return user
+}
+
+/**
+ * Start a session for a user and set the session cookie
+ *
+ * @param res - Response the cookie is written to
+ * @param userId - Id of the authenticated user
+ */
+export async function createSession(res: Response, userId: number) {
+  const token = randomBytes(32).toString('base64url')
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+  await db.insert(sessions).values({ id: hashToken(token), userId, expiresAt })
+
+  res.cookie(SESSION_COOKIE, token, { ...cookieOptions, expires: expiresAt })
+}
+
+/**
+ * Resolve the user owning a session token
+ *
+ * Extends the session (and its cookie) when less than half of its
+ * lifetime is left.
+ *
+ * @param res - Response used to refresh the cookie; `null` where no cookie
+ *   can be set (WebSocket upgrades), which leaves the session's expiry as is
+ * @param token - Token read from the session cookie
+ * @returns The user, or undefined when the session is missing or expired
+ */
+export async function getSessionUser(res: Response | null, token: string): Promise<PublicUser | undefined> {
+  const id = hashToken(token)
+
+  const [row] = await db
+    .select({ user: users, expiresAt: sessions.expiresAt })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(and(eq(sessions.id, id), gt(sessions.expiresAt, new Date())))
+    .limit(1)
+
+  if (!row) {
+    return undefined
+  }
+
+  if (res && row.expiresAt.getTime() - Date.now() < SESSION_TTL_MS / 2) {
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+    await db.update(sessions).set({ expiresAt }).where(eq(sessions.id, id))
+    res.cookie(SESSION_COOKIE, token, { ...cookieOptions, expires: expiresAt })
+  }
+
+  return toPublicUser(row.user)
+}
+
+/**
+ * End a session and clear the session cookie
+ *
+ * @param res - Response the cookie is cleared on
+ * @param token - Token read from the session cookie
+ */
+export async function destroySession(res: Response, token: string | undefined) {
+  if (token) {
+    await db.delete(sessions).where(eq(sessions.id, hashToken(token)))
+  }
+
+  res.clearCookie(SESSION_COOKIE, cookieOptions)
+}
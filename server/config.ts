@@ -0,0 +1,181 @@
+/**
+ * Configuration Module
+ *
+ * Loads `.env`, validates every environment variable the server uses with zod
+ * and exports the result as a frozen, typed `config` object. Invalid or missing
+ * values stop the process at boot with a readable list of problems, instead of
+ * surfacing later as `undefined` somewhere deep in a request.
+ *
+ * This is the only module that should read `process.env`. To add a setting,
+ * declare it in `envSchema` and expose it on `config`.
+ *
+ * Note: this file is also loaded by drizzle-kit through `drizzle.config.ts`,
+ * so it must not import other local modules.
+ *
+ * @example
+ * ```ts
+ * import { config } from './config.js'
+ *
+ * server.listen(config.port)
+ * ```
+ */
+
+import dotenv from 'dotenv'
+import { z } from 'zod'
+
+dotenv.config({ quiet: true })
+
+function parseList(value: string) {
+  return value.split(',').map((item) => item.trim()).filter(Boolean)
+}
+
+function isOrigin(value: string) {
+  return URL.canParse(value) && new URL(value).origin === value
+}
+
+function isMimePattern(value: string) {
+  return /^[\w.+-]+\/(\*|[\w.+-]+)$/.test(value)
+}
+
+const envSchema = z.object({
+  NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+  PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+  // Render pages on the server (client/entry-server.tsx) and hydrate them in the browser
+  SSR: z.stringbool().default(false),
+  SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().min(0).default(10_000),
+  // Number of reverse proxies in front of the app, so `req.ip` is the client's address
+  TRUST_PROXY: z.coerce.number().int().min(0).default(0),
+
+  // Optional: apps without a database run without it
+  DATABASE_URL: z.url({ protocol: /^postgres(ql)?$/, error: 'Must be a postgres:// or postgresql:// URL' }).optional(),
+  DATABASE_POOL_MAX: z.coerce.number().int().min(1).default(10),
+
+  // Comma-separated origins allowed to call the API from the browser
+  CORS_ORIGINS: z
+    .string()
+    .refine((value) => parseList(value).every(isOrigin), 'Must be comma-separated origins, e.g. https://app.example.com')
+    .transform(parseList)
+    .default([]),
+
+  // `postgres` shares rate limits between instances
+  RATE_LIMIT_STORE: z.enum(['memory', 'postgres']).default('memory'),
+
+  // Where uploaded files are stored: a local directory or an S3-compatible bucket
+  STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+  STORAGE_LOCAL_DIR: z.string().default('uploads'),
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default('us-east-1'),
+  // Custom endpoint for S3-compatible services (MinIO, R2, ...); unset for AWS
+  S3_ENDPOINT: z.url().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  // Most S3-compatible services need `bucket` in the path instead of the hostname
+  S3_FORCE_PATH_STYLE: z.stringbool().default(false),
+
+  // Run the job worker inside the web server; set to false when `server/worker.ts` runs separately
+  JOBS_INLINE_WORKER: z.stringbool().default(true),
+  // Jobs a single worker runs at the same time, across all job types
+  JOBS_CONCURRENCY: z.coerce.number().int().min(1).default(5),
+  JOBS_POLL_INTERVAL_MS: z.coerce.number().int().min(50).default(1000),
+
+  UPLOAD_MAX_FILE_SIZE: z.coerce.number().int().min(1).default(10 * 1024 * 1024),
+  UPLOAD_MAX_FILES: z.coerce.number().int().min(1).default(10),
+  // Comma-separated MIME types, `image/*` matches every image type
+  UPLOAD_ALLOWED_TYPES: z
+    .string()
+    .refine((value) => parseList(value).every(isMimePattern), 'Must be comma-separated MIME types, e.g. image/*,application/pdf')
+    .transform(parseList)
+    .default(['image/*', 'application/pdf', 'text/plain']),
+}).refine((env) => env.RATE_LIMIT_STORE !== 'postgres' || env.DATABASE_URL, {
+  path: ['DATABASE_URL'],
+  message: 'Required when RATE_LIMIT_STORE is postgres',
+}).refine((env) => env.STORAGE_DRIVER !== 's3' || env.S3_BUCKET, {
+  path: ['S3_BUCKET'],
+  message: 'Required when STORAGE_DRIVER is s3',
+})
+
+export type Env = z.infer<typeof envSchema>
+
+function deepFreeze<T extends object>(value: T): Readonly<T> {
+  for (const nested of Object.values(value)) {
+    if (nested && typeof nested === 'object') deepFreeze(nested as object)
+  }
+  return Object.freeze(value)
+}
+
+/**
+ * Validate an environment and build the config object
+ *
+ * @param env - Environment variables, defaults to `process.env`
+ * @returns Frozen configuration
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env) {
+  // Empty strings in .env files mean "not set"
+  const defined = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== ''))
+  const result = envSchema.safeParse(defined)
+
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => {
+      const name = issue.path.join('.')
+      const received = env[name]
+      return `  - ${name}: ${issue.message}${received === undefined ? ' (not set)' : ''}`
+    })
+
+    process.stderr.write(`❌ Invalid environment configuration:\n${problems.join('\n')}\n`)
+    process.exit(1)
+  }
+
+  const parsed = result.data
+  const isProduction = parsed.NODE_ENV === 'production'
+
+  return deepFreeze({
+    env: parsed.NODE_ENV,
+    isDev: !isProduction,
+    isProduction,
+    port: parsed.PORT,
+    ssr: parsed.SSR,
+    logLevel: parsed.LOG_LEVEL ?? (isProduction ? 'info' : 'debug'),
+    shutdownTimeoutMs: parsed.SHUTDOWN_TIMEOUT_MS,
+    trustProxy: parsed.TRUST_PROXY,
+    database: {
+      url: parsed.DATABASE_URL,
+      poolMax: parsed.DATABASE_POOL_MAX,
+    },
+    cors: {
+      origins: parsed.CORS_ORIGINS,
+    },
+    rateLimit: {
+      store: parsed.RATE_LIMIT_STORE,
+    },
+    storage: {
+      driver: parsed.STORAGE_DRIVER,
+      localDir: parsed.STORAGE_LOCAL_DIR,
+      s3: {
+        bucket: parsed.S3_BUCKET,
+        region: parsed.S3_REGION,
+        endpoint: parsed.S3_ENDPOINT,
+        accessKeyId: parsed.S3_ACCESS_KEY_ID,
+        secretAccessKey: parsed.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: parsed.S3_FORCE_PATH_STYLE,
+      },
+    },
+    jobs: {
+      inlineWorker: parsed.JOBS_INLINE_WORKER,
+      concurrency: parsed.JOBS_CONCURRENCY,
+      pollIntervalMs: parsed.JOBS_POLL_INTERVAL_MS,
+    },
+    uploads: {
+      maxFileSize: parsed.UPLOAD_MAX_FILE_SIZE,
+      maxFiles: parsed.UPLOAD_MAX_FILES,
+      allowedTypes: parsed.UPLOAD_ALLOWED_TYPES,
+    },
+  })
+}
+
+export type Config = ReturnType<typeof loadConfig>
+
+/**
+ * Validated application configuration
+ */
+export const config: Config = loadConfig()
@@ -0,0 +1,129 @@
+/**
+ * Contract Router Module
+ *
+ * This module mounts endpoints declared with `defineContract` in `shared/`
+ * onto an Express router. Request params, query and body are validated with
+ * the endpoint's schemas via `validate()`, and the handler's return value is
+ * sent as the JSON response.
+ *
+ * Handlers are type-checked against the contract: returning the wrong shape
+ * fails the server's typecheck, and changing a schema in the contract fails
+ * the client's.
+ *
+ * @example
+ * ```ts
+ * implementContract(router, contract, {
+ *   getUser: async ({ params }) => {
+ *     const user = await userRepository.findById(params.id)
+ *     if (!user) throw new NotFoundError()
+ *     return user
+ *   },
+ *   createUser: {
+ *     middleware: [requireAuth],
+ *     handler: async ({ body }, { res }) => {
+ *       res.status(201)
+ *       return userRepository.insert(body)
+ *     },
+ *   },
+ * })
+ * ```
+ */
+
+import type { Request, RequestHandler, Response, Router } from 'express'
+import type {
+  Contract,
+  Endpoint,
+  EndpointRequest,
+  EndpointResult,
+} from '../shared/contract.js'
+import { validate } from './middleware/validate.js'
+import { asyncHandler } from './middleware/async-handler.js'
+
+/**
+ * Express objects available to a handler for setting status codes,
+ * headers or reading the authenticated user
+ */
+export interface HandlerContext {
+  req: Request
+  res: Response
+}
+
+/**
+ * Server implementation of a single endpoint
+ */
+export type EndpointHandler<TEndpoint extends Endpoint> = (
+  request: EndpointRequest<TEndpoint>,
+  context: HandlerContext
+) => EndpointResult<TEndpoint> | Promise<EndpointResult<TEndpoint>>
+
+/**
+ * Endpoint implementation with extra middleware (authentication, rate
+ * limiting, ...) that runs before validation and the handler
+ */
+export interface EndpointImplementation<TEndpoint extends Endpoint> {
+  middleware: RequestHandler[]
+  handler: EndpointHandler<TEndpoint>
+}
+
+/**
+ * One implementation for every endpoint of a contract
+ */
+export type ContractHandlers<TContract extends Contract> = {
+  [K in keyof TContract]: EndpointHandler<TContract[K]> | EndpointImplementation<TContract[K]>
+}
+
+/**
+ * Mount a single endpoint on a router
+ *
+ * @param router - Router the endpoint is relative to (usually the `/api` router)
+ * @param endpoint - Endpoint declaration from the shared contract
+ * @param implementation - Handler returning the response body, optionally with middleware
+ */
+export function mountEndpoint<TEndpoint extends Endpoint>(
+  router: Router,
+  endpoint: TEndpoint,
+  implementation: EndpointHandler<TEndpoint> | EndpointImplementation<TEndpoint>
+) {
+  const method = endpoint.method.toLowerCase() as 'get' | 'post' | 'put' | 'patch' | 'delete'
+  const { params, query, body } = endpoint
+  const { middleware, handler } = typeof implementation === 'function'
+    ? { middleware: [], handler: implementation }
+    : implementation
+
+  router[method](
+    endpoint.path,
+    ...middleware,
+    validate({ params, query, body }),
+    asyncHandler(async (req: Request, res: Response) => {
+      const request = {
+        params: params ? req.params : undefined,
+        query: query ? req.query : undefined,
+        body: body ? (req.body as unknown) : undefined,
+      } as EndpointRequest<TEndpoint>
+
+      const result = await handler(request, { req, res })
+
+      // Handlers may stream or redirect on their own
+      if (!res.headersSent) {
+        res.json(result)
+      }
+    })
+  )
+}
+
+/**
+ * Mount every endpoint of a contract on a router
+ *
+ * @param router - Router the contract paths are relative to
+ * @param contract - Contract declared in `shared/`
+ * @param handlers - Implementation for each endpoint, keyed like the contract
+ */
+export function implementContract<TContract extends Contract>(
+  router: Router,
+  contract: TContract,
+  handlers: ContractHandlers<TContract>
+) {
+  for (const key of Object.keys(contract) as (keyof TContract)[]) {
+    mountEndpoint(router, contract[key], handlers[key])
+  }
+}
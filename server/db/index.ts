@@ -0,0 +1,112 @@
+/**
+ * Database Module
+ *
+ * This module owns the application's PostgreSQL connection. It creates a single
+ * pooled `pg` connection, wraps it in Drizzle ORM and types it against the table
+ * definitions exported from `shared/schema.ts`.
+ *
+ * Features:
+ * - Connection pooling: one shared `pg` Pool for the whole process
+ * - Type safety: `db` knows about every table exported from the shared schema
+ * - Lifecycle: `connectDatabase` verifies connectivity at startup, `closeDatabase` drains the pool
+ *
+ * @example
+ * ```ts
+ * import { db } from '../db/index.js'
+ * import { users } from '../../shared/schema.js'
+ *
+ * const allUsers = await db.select().from(users)
+ * ```
+ */
+
+import pg from 'pg'
+import { drizzle } from 'drizzle-orm/node-postgres'
+import * as schema from '../../shared/schema.js'
+import { config } from '../config.js'
+import { logger } from '../logger.js'
+import { registerHealthCheck } from '../health.js'
+import { onShutdown } from '../shutdown.js'
+
+const log = logger.child({ source: 'db' })
+
+/**
+ * Shared connection pool
+ *
+ * The pool does not open any connection until the first query is issued,
+ * so importing this module is cheap even when no database is configured.
+ */
+export const pool = new pg.Pool({
+  connectionString: config.database.url,
+  max: config.database.poolMax,
+  idleTimeoutMillis: 30_000,
+  connectionTimeoutMillis: 5_000,
+})
+
+// An idle client losing its connection must not crash the process
+pool.on('error', (error) => {
+  log.warn('⚠️ Idle database client error', { err: error })
+})
+
+/**
+ * Drizzle database instance typed against the shared schema
+ */
+export const db = drizzle(pool, { schema })
+
+export type Database = typeof db
+
+/**
+ * Whether a database connection string has been provided
+ *
+ * Apps that do not use a database can run without `DATABASE_URL`;
+ * the server skips connecting in that case.
+ */
+export function isDatabaseConfigured() {
+  return Boolean(config.database.url)
+}
+
+/**
+ * Verify that the database is reachable
+ *
+ * Called once by `createServer` during startup so a misconfigured
+ * `DATABASE_URL` fails the boot instead of the first request. Also
+ * registers the `database` readiness check and closes the pool on shutdown.
+ */
+export async function connectDatabase() {
+  await pool.query('select 1')
+
+  registerHealthCheck('database', async () => {
+    await pool.query('select 1')
+    return { totalConnections: pool.totalCount, idleConnections: pool.idleCount }
+  })
+  onShutdown('database pool', closeDatabase)
+
+  log.info('🗄️ Database connection established')
+}
+
+/**
+ * Whether an error is a Postgres unique constraint violation
+ *
+ * Drizzle wraps driver errors, so the original `pg` error is looked up
+ * on `cause` as well.
+ *
+ * @param error - Error thrown by a query
+ * @param constraint - Only match violations of this constraint
+ */
+export function isUniqueViolation(error: unknown, constraint?: string) {
+  const driverError = error instanceof pg.DatabaseError
+    ? error
+    : (error as { cause?: unknown } | null)?.cause
+
+  return (
+    driverError instanceof pg.DatabaseError &&
+    driverError.code === '23505' &&
+    (!constraint || driverError.constraint === constraint)
+  )
+}
+
+/**
+ * Close every pooled connection
+ */
+export async function closeDatabase() {
+  await pool.end()
+}
@@ -0,0 +1,108 @@
+/**
+ * Repository Helper
+ *
+ * This module provides a small generic repository on top of Drizzle so route
+ * handlers can perform common CRUD operations without writing query
+ * boilerplate. Any table with an `id` primary key column is supported.
+ *
+ * @example
+ * ```ts
+ * import { createRepository } from '../db/repository.js'
+ * import { users } from '../../shared/schema.js'
+ *
+ * const userRepository = createRepository(users)
+ *
+ * const user = await userRepository.findById(1)
+ * const page = await userRepository.list({ limit: 20, offset: 40 })
+ * const created = await userRepository.insert({ name: 'Ada', email: 'ada@make.inc' })
+ * ```
+ */
+
+import { eq, type InferInsertModel, type InferSelectModel, type SQL } from 'drizzle-orm'
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core'
+import { db as defaultDb, type Database } from './index.js'
+
+/**
+ * Any Drizzle table that exposes an `id` column
+ */
+export type TableWithId = PgTable & { id: PgColumn }
+
+/**
+ * Options accepted by `Repository.list`
+ */
+export interface ListOptions {
+  /** Filter condition, e.g. `eq(users.email, email)` */
+  where?: SQL
+  /** Sort expressions, e.g. `[desc(users.createdAt)]` */
+  orderBy?: (SQL | PgColumn)[]
+  /** Maximum number of rows to return */
+  limit?: number
+  /** Number of rows to skip */
+  offset?: number
+}
+
+/**
+ * Generic repository for a single table
+ */
+export interface Repository<TTable extends TableWithId> {
+  table: TTable
+  findById(id: InferSelectModel<TTable>['id']): Promise<InferSelectModel<TTable> | undefined>
+  list(options?: ListOptions): Promise<InferSelectModel<TTable>[]>
+  insert(values: InferInsertModel<TTable>): Promise<InferSelectModel<TTable>>
+  update(
+    id: InferSelectModel<TTable>['id'],
+    values: Partial<InferInsertModel<TTable>>
+  ): Promise<InferSelectModel<TTable> | undefined>
+  delete(id: InferSelectModel<TTable>['id']): Promise<boolean>
+}
+
+/**
+ * Create a repository for a table
+ *
+ * @param table - Drizzle table definition with an `id` column
+ * @param database - Database instance to use, defaults to the shared `db`
+ * @returns Repository with findById, list, insert, update and delete helpers
+ */
+export function createRepository<TTable extends TableWithId>(
+  table: TTable,
+  database: Database = defaultDb
+): Repository<TTable> {
+  type Row = InferSelectModel<TTable>
+
+  // Drizzle's builders cannot narrow generic tables, so queries are
+  // built against the erased table type and the rows cast back to `Row`.
+  const source = table as PgTable & { id: PgColumn }
+
+  return {
+    table,
+
+    async findById(id) {
+      const rows = await database.select().from(source).where(eq(source.id, id)).limit(1)
+      return rows[0] as Row | undefined
+    },
+
+    async list({ where, orderBy = [], limit, offset } = {}) {
+      const query = database.select().from(source).where(where).orderBy(...orderBy).$dynamic()
+
+      if (limit !== undefined) query.limit(limit)
+      if (offset !== undefined) query.offset(offset)
+
+      return (await query) as Row[]
+    },
+
+    async insert(values) {
+      const rows = await database.insert(source).values(values).returning()
+      return (rows as Row[])[0]
+    },
+
+    async update(id, values) {
+      const rows = await database.update(source).set(values).where(eq(source.id, id)).returning()
+      return (rows as Row[])[0]
+    },
+
+    async delete(id) {
+      const rows = await database.delete(source).where(eq(source.id, id)).returning()
+      return (rows as Row[]).length > 0
+    },
+  }
+}
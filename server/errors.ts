@@ -0,0 +1,151 @@
+/**
+ * HTTP Error Classes
+ *
+ * This module defines the typed errors that route handlers throw to produce
+ * non-2xx responses. The error handler middleware turns them into
+ * RFC 7807 `application/problem+json` bodies.
+ *
+ * @example
+ * ```ts
+ * import { NotFoundError } from '../errors.js'
+ *
+ * router.get('/users/:id', asyncHandler(async (req, res) => {
+ *   const user = await userRepository.findById(Number(req.params.id))
+ *   if (!user) throw new NotFoundError(`User ${req.params.id} does not exist`)
+ *   res.json(user)
+ * }))
+ * ```
+ */
+
+/**
+ * Additional members serialized into the problem details body
+ */
+export type ProblemExtensions = Record<string, unknown>
+
+/**
+ * Base class for errors that map to an HTTP status code
+ *
+ * Messages of `HttpError`s are considered safe to show to clients.
+ */
+export class HttpError extends Error {
+  /** HTTP status code of the response */
+  readonly status: number
+  /** Short, human-readable summary of the problem type */
+  readonly title: string
+  /** URI identifying the problem type */
+  readonly type: string
+  /** Extra members merged into the problem details body */
+  readonly extensions: ProblemExtensions
+  /** Extra response headers, e.g. `WWW-Authenticate` */
+  readonly headers: Record<string, string>
+
+  constructor(
+    status: number,
+    title: string,
+    detail?: string,
+    options: { type?: string; extensions?: ProblemExtensions; headers?: Record<string, string> } = {}
+  ) {
+    super(detail ?? title)
+    this.name = new.target.name
+    this.status = status
+    this.title = title
+    this.type = options.type ?? 'about:blank'
+    this.extensions = options.extensions ?? {}
+    this.headers = options.headers ?? {}
+  }
+}
+
+/**
+ * 400 - The request payload, query or params failed validation
+ *
+ * `errors` maps a field path (e.g. `email` or `address.city`) to the reason it
+ * was rejected, in the shape react-hook-form's `setError` expects.
+ */
+export class ValidationError extends HttpError {
+  readonly errors: Record<string, { type: string; message: string }>
+
+  constructor(detail = 'The request is invalid', errors: ValidationError['errors'] = {}) {
+    super(400, 'Validation Failed', detail, { extensions: { errors } })
+    this.errors = errors
+  }
+}
+
+/**
+ * 401 - The request requires an authenticated user
+ */
+export class UnauthorizedError extends HttpError {
+  constructor(detail = 'Authentication is required') {
+    super(401, 'Unauthorized', detail)
+  }
+}
+
+/**
+ * 403 - The authenticated user may not perform this action
+ */
+export class ForbiddenError extends HttpError {
+  constructor(detail = 'You do not have permission to perform this action') {
+    super(403, 'Forbidden', detail)
+  }
+}
+
+/**
+ * 404 - The requested resource does not exist
+ */
+export class NotFoundError extends HttpError {
+  constructor(detail = 'The requested resource was not found') {
+    super(404, 'Not Found', detail)
+  }
+}
+
+/**
+ * 409 - The request conflicts with the current state of a resource
+ */
+export class ConflictError extends HttpError {
+  constructor(detail = 'The request conflicts with the current state of the resource') {
+    super(409, 'Conflict', detail)
+  }
+}
+
+/**
+ * 413 - The request body (e.g. an uploaded file) exceeds a size limit
+ */
+export class PayloadTooLargeError extends HttpError {
+  constructor(detail = 'The request is too large') {
+    super(413, 'Payload Too Large', detail)
+  }
+}
+
+/**
+ * 415 - The request body (e.g. an uploaded file) has a type that is not accepted
+ */
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(detail = 'The media type of the request is not supported') {
+    super(415, 'Unsupported Media Type', detail)
+  }
+}
+
+/**
+ * 429 - The client sent too many requests and must wait before retrying
+ */
+export class TooManyRequestsError extends HttpError {
+  constructor(retryAfterSeconds: number, detail = 'Too many requests, please try again later') {
+    super(429, 'Too Many Requests', detail, {
+      extensions: { retryAfter: retryAfterSeconds },
+      headers: { 'Retry-After': String(retryAfterSeconds) },
+    })
+  }
+}
+
+/**
+ * 405 - The path exists but does not support the request method
+ *
+ * `allowed` is sent as the `Allow` header.
+ */
+export class MethodNotAllowedError extends HttpError {
+  constructor(method: string, allowed: string[]) {
+    super(405, 'Method Not Allowed', `${method} is not supported here, use ${allowed.join(' or ')}`, {
+      extensions: { allowed },
+      headers: { Allow: allowed.join(', ') },
+    })
+  }
+}
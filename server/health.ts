@@ -0,0 +1,135 @@
+/**
+ * Health Check Registry
+ *
+ * This module keeps track of the dependencies the server needs in order to
+ * serve traffic. Subsystems (database, job queue, cache, ...) register a named
+ * check when they start, and the readiness endpoint runs all of them.
+ *
+ * Features:
+ * - Named checks: each subsystem owns its own check
+ * - Timeouts: a hanging dependency fails its check instead of the request
+ * - Criticality: only critical failures make the instance unready
+ *
+ * @example
+ * ```ts
+ * import { registerHealthCheck } from '../health.js'
+ *
+ * registerHealthCheck('cache', () => redis.ping(), { timeout: 1000, critical: false })
+ * ```
+ */
+
+/**
+ * A health check passes when it resolves and fails when it throws or rejects.
+ * A resolved value other than `undefined` is reported as the check's details.
+ */
+export type HealthCheck = () => unknown | Promise<unknown>
+
+export interface HealthCheckOptions {
+  /** Milliseconds before the check is considered failed (default: 2000) */
+  timeout?: number
+  /** Whether a failure should mark the instance as not ready (default: true) */
+  critical?: boolean
+}
+
+export interface HealthCheckResult {
+  status: 'pass' | 'fail'
+  critical: boolean
+  durationMs: number
+  details?: unknown
+  error?: string
+}
+
+export interface HealthReport {
+  /** `fail` when a critical check failed, `degraded` when only non-critical checks failed */
+  status: 'ok' | 'degraded' | 'fail'
+  timestamp: string
+  checks: Record<string, HealthCheckResult>
+}
+
+interface RegisteredCheck {
+  check: HealthCheck
+  timeout: number
+  critical: boolean
+}
+
+const DEFAULT_TIMEOUT = 2000
+
+const checks = new Map<string, RegisteredCheck>()
+
+/**
+ * Register (or replace) a named health check
+ *
+ * @param name - Unique name reported in the readiness response
+ * @param check - Function that throws or rejects when the dependency is unhealthy
+ * @param options - Timeout and criticality
+ */
+export function registerHealthCheck(name: string, check: HealthCheck, options: HealthCheckOptions = {}) {
+  checks.set(name, {
+    check,
+    timeout: options.timeout ?? DEFAULT_TIMEOUT,
+    critical: options.critical ?? true,
+  })
+}
+
+/**
+ * Remove a previously registered health check
+ */
+export function unregisterHealthCheck(name: string) {
+  checks.delete(name)
+}
+
+async function runCheck({ check, timeout, critical }: RegisteredCheck): Promise<HealthCheckResult> {
+  const startedAt = performance.now()
+  let timer: NodeJS.Timeout | undefined
+
+  try {
+    const details = await Promise.race([
+      Promise.resolve().then(check),
+      new Promise((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout)
+      }),
+    ])
+
+    return {
+      status: 'pass',
+      critical,
+      durationMs: Math.round(performance.now() - startedAt),
+      ...(details === undefined ? {} : { details }),
+    }
+  } catch (error) {
+    return {
+      status: 'fail',
+      critical,
+      durationMs: Math.round(performance.now() - startedAt),
+      error: error instanceof Error ? error.message : String(error),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Run every registered check in parallel
+ *
+ * @returns Aggregated report with per-check results
+ */
+export async function runHealthChecks(): Promise<HealthReport> {
+  const entries = await Promise.all(
+    [...checks].map(async ([name, registered]) => [name, await runCheck(registered)] as const)
+  )
+  const results = Object.fromEntries(entries)
+  const failed = entries.filter(([, result]) => result.status === 'fail')
+
+  let status: HealthReport['status'] = 'ok'
+  if (failed.some(([, result]) => result.critical)) {
+    status = 'fail'
+  } else if (failed.length > 0) {
+    status = 'degraded'
+  }
+
+  return {
+    status,
+    timestamp: new Date().toISOString(),
+    checks: results,
+  }
+}
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { backoffDelay, defineJob } from './define.js'
+
+describe('backoffDelay', () => {
+  const backoff = { baseMs: 1000, maxMs: 60_000 }
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('doubles with every failed attempt, jittered between half and all of it', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(backoff, attempt))).toEqual([500, 1000, 2000, 4000])
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999)
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(backoff, attempt))).toEqual([1000, 2000, 4000, 8000])
+  })
+
+  it('never waits longer than `maxMs`', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999)
+
+    expect(backoffDelay(backoff, 7)).toBe(60_000)
+    expect(backoffDelay(backoff, 1000)).toBe(60_000)
+  })
+
+  it('stays within the jitter range', () => {
+    for (let i = 0; i < 100; i++) {
+      const delay = backoffDelay(backoff, 3)
+      expect(delay).toBeGreaterThanOrEqual(2000)
+      expect(delay).toBeLessThanOrEqual(4000)
+    }
+  })
+})
+
+describe('defineJob', () => {
+  const options = { name: 'test', schema: z.object({}), handler: () => undefined }
+
+  it('fills in the default retry policy', () => {
+    expect(defineJob(options)).toMatchObject({
+      maxAttempts: 3,
+      concurrency: Infinity,
+      timeoutMs: 300_000,
+      backoff: { baseMs: 1000, maxMs: 3_600_000 },
+    })
+  })
+
+  it('keeps the backoff defaults it is not given', () => {
+    expect(defineJob({ ...options, backoff: { baseMs: 50 } }).backoff).toEqual({ baseMs: 50, maxMs: 3_600_000 })
+  })
+})
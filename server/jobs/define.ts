@@ -0,0 +1,102 @@
+/**
+ * Job Definitions
+ *
+ * A job definition ties a name to a zod payload schema and the handler that
+ * runs it, plus its retry policy. The same definition is used to enqueue
+ * (the payload is validated and typed) and by the worker to run the job.
+ *
+ * @example
+ * ```ts
+ * import { z } from 'zod'
+ * import { defineJob } from './define.js'
+ *
+ * export const sendWelcomeEmail = defineJob({
+ *   name: 'send-welcome-email',
+ *   schema: z.object({ userId: z.number().int() }),
+ *   maxAttempts: 5,
+ *   concurrency: 2,
+ *   async handler({ userId }, { log, signal }) {
+ *     const user = await userRepository.findById(userId)
+ *     await mailer.send(user.email, 'Welcome!', { signal })
+ *     log.info('📧 Welcome email sent')
+ *   },
+ * })
+ * ```
+ */
+
+import type { z } from 'zod'
+import type { Logger } from '../logger.js'
+
+export interface BackoffOptions {
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  baseMs?: number
+  /** Upper bound for any delay in milliseconds (default: 1 hour) */
+  maxMs?: number
+}
+
+/**
+ * Information about the running attempt, passed to handlers
+ */
+export interface JobContext {
+  /** Id of the job row */
+  id: number
+  /** 1 for the first attempt */
+  attempt: number
+  maxAttempts: number
+  /** Logger tagged with the job name and id */
+  log: Logger
+  /**
+   * Aborted when the attempt times out or the worker stops; pass it on to
+   * fetch and other cancellable work. The attempt lasts until the handler
+   * settles, so a handler ignoring it blocks its slot and shutdown.
+   */
+  signal: AbortSignal
+}
+
+export interface JobDefinition<TSchema extends z.ZodType = z.ZodType> {
+  /** Unique name stored with every job of this type */
+  name: string
+  /** Payload schema, checked when enqueuing and again before running */
+  schema: TSchema
+  /** Attempts before the job is moved to the `dead` state (default: 3) */
+  maxAttempts: number
+  /** Delay between attempts, doubling with every failure */
+  backoff: Required<BackoffOptions>
+  /** Jobs of this type a single worker runs at the same time (default: no limit beyond the worker's) */
+  concurrency: number
+  /** Milliseconds before the attempt's `signal` is aborted (default: 5 minutes) */
+  timeoutMs: number
+  /** Run the job; throwing or rejecting schedules a retry */
+  handler(payload: z.output<TSchema>, context: JobContext): Promise<void> | void
+}
+
+export type JobDefinitionOptions<TSchema extends z.ZodType> =
+  Pick<JobDefinition<TSchema>, 'name' | 'schema' | 'handler'>
+  & Partial<Pick<JobDefinition<TSchema>, 'maxAttempts' | 'concurrency' | 'timeoutMs'>>
+  & { backoff?: BackoffOptions }
+
+/**
+ * Declare a job type
+ *
+ * Add the definition to `server/jobs/registry.ts` so workers can run it.
+ */
+export function defineJob<TSchema extends z.ZodType>(options: JobDefinitionOptions<TSchema>): JobDefinition<TSchema> {
+  return {
+    maxAttempts: 3,
+    concurrency: Infinity,
+    timeoutMs: 5 * 60_000,
+    ...options,
+    backoff: { baseMs: 1000, maxMs: 60 * 60_000, ...options.backoff },
+  }
+}
+
+/**
+ * Delay before the attempt following `attempt` failed ones
+ *
+ * Exponential with "equal jitter": between half and all of the doubled
+ * delay, so jobs that failed together do not all retry at the same moment.
+ */
+export function backoffDelay({ baseMs, maxMs }: Required<BackoffOptions>, attempt: number) {
+  const delay = Math.min(maxMs, baseMs * 2 ** (attempt - 1))
+  return Math.round(delay / 2 + Math.random() * (delay / 2))
+}
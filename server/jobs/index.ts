@@ -0,0 +1,59 @@
+/**
+ * Jobs Module
+ *
+ * Background jobs stored in Postgres. Define job types with `defineJob`,
+ * list them in `./registry.ts` and enqueue them from anywhere with
+ * `enqueue`. A worker runs them either inside the web server
+ * (`JOBS_INLINE_WORKER=true`, the default) or as a separate process
+ * (`npm run worker`, see `server/worker.ts`).
+ *
+ * @example
+ * ```ts
+ * import { enqueue } from '../jobs/index.js'
+ * import { generateThumbnail } from '../jobs/registry.js'
+ *
+ * res.status(202)
+ * return { jobId: await enqueue(generateThumbnail, { fileId: file.id }) }
+ * ```
+ */
+
+import { count } from 'drizzle-orm'
+import { jobs } from '../../shared/schema.js'
+import { config } from '../config.js'
+import { db } from '../db/index.js'
+import { registerHealthCheck } from '../health.js'
+import { onShutdown } from '../shutdown.js'
+import { jobDefinitions } from './registry.js'
+import { JobWorker } from './worker.js'
+
+export { defineJob, type BackoffOptions, type JobContext, type JobDefinition } from './define.js'
+export { enqueue, retryJob, type EnqueueOptions } from './queue.js'
+export { JobWorker, type WorkerOptions } from './worker.js'
+
+/**
+ * Start a worker for every registered job type
+ *
+ * Uses the `JOBS_*` settings, stops on graceful shutdown (aborting running
+ * jobs and waiting up to `SHUTDOWN_TIMEOUT_MS` for them) and reports queue
+ * depth in the readiness check.
+ */
+export function startWorker() {
+  const worker = new JobWorker({
+    definitions: jobDefinitions,
+    concurrency: config.jobs.concurrency,
+    pollIntervalMs: config.jobs.pollIntervalMs,
+  })
+
+  worker.start()
+  onShutdown('job worker', () => worker.stop(config.shutdownTimeoutMs))
+
+  registerHealthCheck('jobs', async () => {
+    const rows = await db.select({ status: jobs.status, count: count() }).from(jobs).groupBy(jobs.status)
+    return {
+      active: worker.activeCount,
+      ...Object.fromEntries(rows.map((row) => [row.status, row.count])),
+    }
+  }, { critical: false })
+
+  return worker
+}
@@ -0,0 +1,99 @@
+/**
+ * Job Queue
+ *
+ * Enqueues jobs into the `jobs` table. Any process can enqueue; workers
+ * (`./worker.ts`) pick the jobs up from the table, so the queue needs
+ * nothing besides Postgres.
+ *
+ * @example
+ * ```ts
+ * import { enqueue } from '../jobs/queue.js'
+ * import { sendWelcomeEmail } from '../jobs/registry.js'
+ *
+ * await enqueue(sendWelcomeEmail, { userId: user.id })
+ * await enqueue(sendWelcomeEmail, { userId: user.id }, { delayMs: 60_000 })
+ * ```
+ */
+
+import { and, eq, sql } from 'drizzle-orm'
+import type { z } from 'zod'
+import { jobs } from '../../shared/schema.js'
+import { db } from '../db/index.js'
+import type { JobDefinition } from './define.js'
+
+export interface EnqueueOptions {
+  /** Run no earlier than this many milliseconds from now */
+  delayMs?: number
+  /** Run no earlier than this moment; takes precedence over `delayMs` */
+  runAt?: Date
+  /** Override the definition's `maxAttempts` for this job */
+  maxAttempts?: number
+}
+
+const listeners = new Set<() => void>()
+
+/**
+ * Be notified when a job is enqueued by this process
+ *
+ * Lets an inline worker start new jobs right away instead of at its next
+ * poll. Returns a function that removes the listener.
+ */
+export function onEnqueue(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Add a job to the queue
+ *
+ * @param job - Definition of the job type
+ * @param payload - Job data, validated against the definition's schema
+ * @param options - Delay and attempt overrides
+ * @returns Id of the created job
+ * @throws {z.ZodError} When the payload does not match the schema
+ */
+export async function enqueue<TSchema extends z.ZodType>(
+  job: JobDefinition<TSchema>,
+  payload: z.input<TSchema>,
+  options: EnqueueOptions = {}
+) {
+  // Stored as given: the worker parses it again, so transforms are applied exactly once
+  job.schema.parse(payload)
+
+  const runAt = options.runAt ?? sql`now() + ${options.delayMs ?? 0} * interval '1 millisecond'`
+
+  const [row] = await db
+    .insert(jobs)
+    .values({
+      name: job.name,
+      payload,
+      maxAttempts: options.maxAttempts ?? job.maxAttempts,
+      runAt,
+    })
+    .returning({ id: jobs.id })
+
+  for (const listener of listeners) listener()
+
+  return row.id
+}
+
+/**
+ * Move a dead job back into the queue with a fresh set of attempts
+ *
+ * @returns Whether a dead job with this id existed
+ */
+export async function retryJob(id: number) {
+  const rows = await db
+    .update(jobs)
+    .set({ status: 'pending', attempts: 0, runAt: sql`now()`, updatedAt: sql`now()` })
+    .where(and(eq(jobs.id, id), eq(jobs.status, 'dead')))
+    .returning({ id: jobs.id })
+
+  if (rows.length > 0) {
+    for (const listener of listeners) listener()
+  }
+
+  return rows.length > 0
+}
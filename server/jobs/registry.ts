@@ -0,0 +1,23 @@
+/**
+ * Job Registry
+ *
+ * Every job type the application defines. Workers only run jobs whose
+ * definition is listed here; jobs of unknown types stay pending.
+ *
+ * Define each job with `defineJob` (see `./define.ts`), in this file or in
+ * a module next to the code it belongs to, and add it to `jobDefinitions`:
+ *
+ * export const sendWelcomeEmail = defineJob({
+ *   name: 'send-welcome-email',
+ *   schema: z.object({ userId: z.number().int() }),
+ *   async handler({ userId }) {
+ *     ...
+ *   },
+ * })
+ *
+ * export const jobDefinitions: JobDefinition[] = [sendWelcomeEmail]
+ */
+
+import type { JobDefinition } from './define.js'
+
+export const jobDefinitions: JobDefinition[] = []
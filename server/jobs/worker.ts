@@ -0,0 +1,341 @@
+/**
+ * Job Worker
+ *
+ * Claims due jobs from the `jobs` table and runs them with their
+ * definition's handler. Claiming uses `FOR UPDATE SKIP LOCKED`, so any
+ * number of workers (inline in web servers or separate processes) can share
+ * the queue and every claim goes to exactly one worker.
+ *
+ * Delivery is at least once, not exactly once: a job whose worker died, or
+ * whose handler is still running a minute past its timeout, is run again.
+ * Handlers must be safe to repeat and must stop when their `signal` aborts.
+ *
+ * Lifecycle of an attempt:
+ * - Success: the job becomes `completed`
+ * - Failure: the job goes back to `pending` with an exponential backoff, or
+ *   becomes `dead` after its last attempt (or when its payload is invalid)
+ * - Timeout: the attempt's `signal` is aborted, but the job stays `running`
+ *   and keeps its concurrency slot until the handler settles; a rejection
+ *   then counts as a failure
+ * - Crash: a job left `running` past its timeout by a worker that died (or a
+ *   handler that never settles) is put back in the queue by the next worker
+ *   that notices
+ *
+ * Completed jobs are deleted after `retentionMs`; dead jobs are kept until
+ * they are retried (`retryJob`) or removed by hand.
+ */
+
+import { and, asc, eq, inArray, lt, lte, sql } from 'drizzle-orm'
+import type { PgUpdateSetSource } from 'drizzle-orm/pg-core'
+import { nanoid } from 'nanoid'
+import os from 'os'
+import { jobs, type Job } from '../../shared/schema.js'
+import { db } from '../db/index.js'
+import { logger } from '../logger.js'
+import { backoffDelay, type JobDefinition } from './define.js'
+import { onEnqueue } from './queue.js'
+
+const log = logger.child({ source: 'jobs' })
+
+export interface WorkerOptions {
+  /** Job types this worker runs */
+  definitions: JobDefinition[]
+  /** Jobs run at the same time across all types (default: 5) */
+  concurrency?: number
+  /** Milliseconds between checks for due jobs (default: 1000) */
+  pollIntervalMs?: number
+  /** How long completed jobs are kept in milliseconds (default: 7 days) */
+  retentionMs?: number
+}
+
+// Recovering crashed jobs and pruning old ones is not needed on every poll
+const MAINTENANCE_INTERVAL_MS = 60_000
+
+class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`)
+    this.name = 'TimeoutError'
+  }
+}
+
+class ShutdownError extends Error {
+  constructor() {
+    super('The worker is shutting down')
+    this.name = 'ShutdownError'
+  }
+}
+
+export class JobWorker {
+  readonly id = `${os.hostname()}:${process.pid}:${nanoid(6)}`
+  private readonly definitions: Map<string, JobDefinition>
+  private readonly concurrency: number
+  private readonly pollIntervalMs: number
+  private readonly retentionMs: number
+  private readonly active = new Map<string, number>()
+  private readonly running = new Set<Promise<void>>()
+  private readonly controllers = new Set<AbortController>()
+  private pollTimer: NodeJS.Timeout | undefined
+  private maintenanceTimer: NodeJS.Timeout | undefined
+  private removeEnqueueListener: (() => void) | undefined
+  private polling = false
+  private pollAgain = false
+  private stopped = true
+
+  constructor({ definitions, concurrency = 5, pollIntervalMs = 1000, retentionMs = 7 * 24 * 60 * 60_000 }: WorkerOptions) {
+    this.definitions = new Map(definitions.map((definition) => [definition.name, definition]))
+    this.concurrency = concurrency
+    this.pollIntervalMs = pollIntervalMs
+    this.retentionMs = retentionMs
+  }
+
+  /** Number of jobs currently running in this worker */
+  get activeCount() {
+    return this.running.size
+  }
+
+  start() {
+    if (!this.stopped) return
+    this.stopped = false
+
+    this.removeEnqueueListener = onEnqueue(() => this.poll())
+    this.maintenanceTimer = setInterval(() => void this.maintain(), MAINTENANCE_INTERVAL_MS)
+    this.maintenanceTimer.unref()
+
+    log.info(`👷 Job worker started`, { worker: this.id, jobs: [...this.definitions.keys()], concurrency: this.concurrency })
+    void this.maintain()
+    this.poll()
+  }
+
+  /**
+   * Stop claiming jobs, abort the running ones and wait for them to settle
+   *
+   * Jobs that stop because of the abort go back to the queue without using
+   * up an attempt. Jobs still running after `timeoutMs` are left `running`
+   * for stale lock recovery to requeue.
+   *
+   * @param timeoutMs - Longest wait for running jobs (default: no limit)
+   */
+  async stop(timeoutMs = Infinity) {
+    this.stopped = true
+    clearTimeout(this.pollTimer)
+    clearInterval(this.maintenanceTimer)
+    this.removeEnqueueListener?.()
+
+    if (this.running.size === 0) return
+
+    log.info(`⏳ Aborting ${this.running.size} running job(s)`)
+    for (const controller of this.controllers) controller.abort(new ShutdownError())
+
+    let deadline: NodeJS.Timeout | undefined
+    const settled = await Promise.race([
+      Promise.allSettled(this.running).then(() => true),
+      new Promise<false>((resolve) => {
+        if (Number.isFinite(timeoutMs)) deadline = setTimeout(() => resolve(false), timeoutMs)
+      }),
+    ])
+    clearTimeout(deadline)
+
+    if (!settled) {
+      log.warn(`⏱️ ${this.running.size} job(s) ignored the abort for ${timeoutMs}ms, leaving them to stale lock recovery`)
+    }
+  }
+
+  /**
+   * Claim and start due jobs, then schedule the next poll
+   *
+   * Calls made while a poll is in flight are folded into one extra poll.
+   */
+  private poll() {
+    if (this.stopped) return
+
+    if (this.polling) {
+      this.pollAgain = true
+      return
+    }
+
+    this.polling = true
+    clearTimeout(this.pollTimer)
+
+    this.claimAndRun()
+      .catch((error: unknown) => log.error('❌ Failed to claim jobs', { err: error }))
+      .finally(() => {
+        this.polling = false
+
+        if (this.stopped) return
+        if (this.pollAgain) {
+          this.pollAgain = false
+          this.poll()
+          return
+        }
+        this.pollTimer = setTimeout(() => this.poll(), this.pollIntervalMs)
+      })
+  }
+
+  private async claimAndRun() {
+    for (const definition of this.definitions.values()) {
+      const free = Math.min(
+        this.concurrency - this.running.size,
+        definition.concurrency - (this.active.get(definition.name) ?? 0)
+      )
+      if (free <= 0) continue
+
+      for (const job of await this.claim(definition.name, free)) {
+        this.track(definition, job)
+      }
+    }
+  }
+
+  private async claim(name: string, limit: number) {
+    const due = db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.name, name), eq(jobs.status, 'pending'), lte(jobs.runAt, sql`now()`)))
+      .orderBy(asc(jobs.runAt), asc(jobs.id))
+      .limit(limit)
+      .for('update', { skipLocked: true })
+
+    return db
+      .update(jobs)
+      .set({
+        status: 'running',
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: sql`now()`,
+        lockedBy: this.id,
+        updatedAt: sql`now()`,
+      })
+      .where(inArray(jobs.id, due))
+      .returning()
+  }
+
+  private track(definition: JobDefinition, job: Job) {
+    this.active.set(definition.name, (this.active.get(definition.name) ?? 0) + 1)
+
+    const run = this.run(definition, job).finally(() => {
+      this.active.set(definition.name, (this.active.get(definition.name) ?? 1) - 1)
+      this.running.delete(run)
+      // A slot is free again; pick up the backlog without waiting for the next poll
+      this.poll()
+    })
+    this.running.add(run)
+  }
+
+  private async run(definition: JobDefinition, job: Job) {
+    const jobLog = log.child({ job: job.name, jobId: job.id, attempt: job.attempts })
+    const parsed = definition.schema.safeParse(job.payload)
+
+    // Retrying cannot fix a payload that no longer matches the schema
+    if (!parsed.success) {
+      jobLog.error('💀 Job payload is invalid, moving it to dead', { err: parsed.error })
+      await this.finish(job, { status: 'dead', lastError: parsed.error.message })
+      return
+    }
+
+    const controller = new AbortController()
+    const startedAt = performance.now()
+    this.controllers.add(controller)
+
+    // Only aborts the signal: the attempt lasts until the handler settles, so
+    // the job is not claimed again while it runs (short of going stale)
+    const timer = setTimeout(() => {
+      jobLog.warn(`⏱️ Job timed out after ${definition.timeoutMs}ms, aborting it`)
+      controller.abort(new TimeoutError(definition.timeoutMs))
+    }, definition.timeoutMs)
+
+    try {
+      await definition.handler(parsed.data, {
+        id: job.id,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        log: jobLog,
+        signal: controller.signal,
+      })
+
+      jobLog.info('✅ Job completed', { durationMs: Math.round(performance.now() - startedAt) })
+      await this.finish(job, { status: 'completed', completedAt: sql`now()` })
+    } catch (handlerError) {
+      // Report why the signal was aborted rather than the handler's generic AbortError
+      const error: unknown = controller.signal.aborted ? controller.signal.reason : handlerError
+
+      if (error instanceof ShutdownError) {
+        jobLog.info('↩️ Job interrupted by shutdown, back in the queue')
+        await this.finish(job, { status: 'pending', attempts: job.attempts - 1, runAt: sql`now()` })
+        return
+      }
+
+      const lastError = error instanceof Error ? error.stack ?? error.message : String(error)
+
+      if (job.attempts >= job.maxAttempts) {
+        jobLog.error(`💀 Job failed after ${job.attempts} attempt(s), moving it to dead`, { err: error })
+        await this.finish(job, { status: 'dead', lastError })
+        return
+      }
+
+      const delayMs = backoffDelay(definition.backoff, job.attempts)
+      jobLog.warn(`🔁 Job failed, retrying in ${delayMs}ms`, { err: error })
+      await this.finish(job, {
+        status: 'pending',
+        lastError,
+        runAt: sql`now() + ${delayMs} * interval '1 millisecond'`,
+      })
+    } finally {
+      clearTimeout(timer)
+      this.controllers.delete(controller)
+    }
+  }
+
+  private async finish(job: Job, changes: PgUpdateSetSource<typeof jobs>) {
+    try {
+      await db
+        .update(jobs)
+        .set({ ...changes, lockedAt: null, lockedBy: null, updatedAt: sql`now()` })
+        // Only if this attempt still holds the job; a handler that outlived the stale
+        // lock timeout may have been recovered and claimed again, even by this worker
+        .where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, this.id), eq(jobs.attempts, job.attempts)))
+    } catch (error) {
+      // The job stays `running` and is recovered once its lock goes stale
+      log.error('❌ Failed to record job result', { err: error, jobId: job.id })
+    }
+  }
+
+  /**
+   * Requeue jobs abandoned by crashed workers and delete old completed jobs
+   */
+  private async maintain() {
+    try {
+      for (const definition of this.definitions.values()) {
+        // Give the owning worker a minute past the timeout to record the result itself
+        const staleAfterMs = definition.timeoutMs + MAINTENANCE_INTERVAL_MS
+
+        const recovered = await db
+          .update(jobs)
+          .set({
+            status: sql`case when ${jobs.attempts} >= ${jobs.maxAttempts} then 'dead' else 'pending' end`,
+            lastError: 'The worker running this job stopped responding',
+            lockedAt: null,
+            lockedBy: null,
+            runAt: sql`now()`,
+            updatedAt: sql`now()`,
+          })
+          .where(and(
+            eq(jobs.name, definition.name),
+            eq(jobs.status, 'running'),
+            lt(jobs.lockedAt, sql`now() - ${staleAfterMs} * interval '1 millisecond'`)
+          ))
+          .returning({ id: jobs.id })
+
+        if (recovered.length > 0) {
+          log.warn(`🧟 Recovered ${recovered.length} stale ${definition.name} job(s)`)
+        }
+      }
+
+      await db
+        .delete(jobs)
+        .where(and(
+          eq(jobs.status, 'completed'),
+          lt(jobs.completedAt, sql`now() - ${this.retentionMs} * interval '1 millisecond'`)
+        ))
+    } catch (error) {
+      log.error('❌ Job maintenance failed', { err: error })
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Logger Module
+ *
+ * Structured, leveled logging for the server. Every log line has a level, a
+ * message and optional fields; child loggers add fields (such as the request
+ * id) to every line they write.
+ *
+ * Features:
+ * - Levels: debug, info, warn and error, filtered by `LOG_LEVEL`
+ * - Production: one JSON object per line, ready for log aggregation
+ * - Development: colored, human-readable lines
+ * - Errors: `Error` values in fields are serialized with their stack
+ *
+ * @example
+ * ```ts
+ * import { logger } from '../logger.js'
+ *
+ * const dbLogger = logger.child({ source: 'db' })
+ * dbLogger.info('Connected', { host: 'localhost' })
+ *
+ * // Inside a route handler, lines carry the request id automatically
+ * req.log.warn('Payment declined', { orderId })
+ * ```
+ */
+
+import { config } from './config.js'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  /** Create a logger that adds `bindings` to every line */
+  child(bindings: LogFields): Logger
+}
+
+export interface LoggerOptions {
+  /** Lowest level that is written (default: `info`) */
+  level?: LogLevel
+  /** `json` for machines, `pretty` for humans (default: `json`) */
+  format?: 'json' | 'pretty'
+  /** Fields added to every line */
+  bindings?: LogFields
+  /** Output sink, one call per line (default: stdout) */
+  write?: (line: string) => void
+}
+
+const LEVEL_VALUES: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '\x1b[90m',
+  info: '\x1b[36m',
+  warn: '\x1b[33m',
+  error: '\x1b[31m',
+}
+
+const RESET = '\x1b[0m'
+const DIM = '\x1b[2m'
+
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  return value
+}
+
+function serializeFields(fields: LogFields) {
+  return Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, serializeValue(value)])
+  )
+}
+
+function formatJson(level: LogLevel, message: string, fields: LogFields) {
+  return JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...serializeFields(fields),
+  })
+}
+
+function formatPretty(level: LogLevel, message: string, { source, ...fields }: LogFields) {
+  const time = new Date().toLocaleTimeString('en-GB', { hour12: false })
+  const label = `${LEVEL_COLORS[level]}${level.toUpperCase().padEnd(5)}${RESET}`
+  const prefix = `${DIM}${time}${RESET} ${label} ${DIM}[${typeof source === 'string' ? source : 'app'}]${RESET}`
+
+  const stacks: string[] = []
+  const pairs = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (value instanceof Error) {
+        stacks.push(value.stack ?? `${value.name}: ${value.message}`)
+        return `${key}=${JSON.stringify(value.message)}`
+      }
+      return `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`
+    })
+
+  const details = pairs.length > 0 ? ` ${DIM}${pairs.join(' ')}${RESET}` : ''
+  const trace = stacks.map((stack) => `\n${stack}`).join('')
+
+  return `${prefix} ${message}${details}${trace}`
+}
+
+/**
+ * Create a logger
+ *
+ * @param options - Level, format, default fields and output sink
+ * @returns Logger instance
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const {
+    level = 'info',
+    format = 'json',
+    bindings = {},
+    write = (line: string) => process.stdout.write(`${line}\n`),
+  } = options
+  const threshold = LEVEL_VALUES[level]
+
+  const emit = (lineLevel: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVEL_VALUES[lineLevel] < threshold) return
+
+    const merged = { ...bindings, ...fields }
+    write(format === 'json' ? formatJson(lineLevel, message, merged) : formatPretty(lineLevel, message, merged))
+  }
+
+  return {
+    debug: (message, fields) => emit('debug', message, fields),
+    info: (message, fields) => emit('info', message, fields),
+    warn: (message, fields) => emit('warn', message, fields),
+    error: (message, fields) => emit('error', message, fields),
+    child: (childBindings) => createLogger({ ...options, bindings: { ...bindings, ...childBindings } }),
+  }
+}
+
+/**
+ * Application-wide root logger
+ *
+ * JSON in production, pretty in development. Set `LOG_LEVEL` to
+ * debug, info, warn or error to change the threshold.
+ */
+export const logger = createLogger({
+  level: config.logLevel,
+  format: config.isDev ? 'pretty' : 'json',
+})
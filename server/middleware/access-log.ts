@@ -0,0 +1,54 @@
+/**
+ * Access Log Middleware
+ *
+ * Writes one line per completed request through the request-scoped logger,
+ * with the method, path, status, duration and signed-in user id.
+ * Server errors are logged at `error`, client errors at `warn`.
+ *
+ * Must be registered after `requestId`, which provides `req.log`.
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express'
+
+export interface AccessLogOptions {
+  /** Return true to leave a request out of the access log */
+  skip?: (req: Request) => boolean
+}
+
+/**
+ * Create the access log middleware
+ *
+ * @param options - Filter for requests that should not be logged
+ */
+export function accessLog(options: AccessLogOptions = {}): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (options.skip?.(req)) {
+      next()
+      return
+    }
+
+    const startedAt = process.hrtime.bigint()
+
+    res.on('finish', () => {
+      const durationMs = Number(process.hrtime.bigint() - startedAt) / 1e6
+      const fields = {
+        method: req.method,
+        path: req.originalUrl,
+        status: res.statusCode,
+        durationMs: Math.round(durationMs * 10) / 10,
+        userId: req.user?.id,
+      }
+      const message = `${fields.method} ${fields.path} ${fields.status} ${fields.durationMs}ms`
+
+      if (res.statusCode >= 500) {
+        req.log.error(message, fields)
+      } else if (res.statusCode >= 400) {
+        req.log.warn(message, fields)
+      } else {
+        req.log.info(message, fields)
+      }
+    })
+
+    next()
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Async Handler Wrapper
+ *
+ * Express 4 does not catch rejected promises returned from route handlers.
+ * Wrapping a handler with `asyncHandler` forwards the rejection to `next`,
+ * so it reaches the error handler middleware like a synchronous throw would.
+ *
+ * @example
+ * ```ts
+ * router.get('/users', asyncHandler(async (_req, res) => {
+ *   res.json(await userRepository.list())
+ * }))
+ * ```
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express'
+import type { ParamsDictionary, Query } from 'express-serve-static-core'
+
+/**
+ * Wrap an async request handler so its rejections are passed to `next`
+ *
+ * @param handler - Route handler returning a promise
+ * @returns Request handler safe to register with Express
+ */
+export function asyncHandler<P = ParamsDictionary, ResBody = unknown, ReqBody = unknown, ReqQuery = Query>(
+  handler: (req: Request<P, ResBody, ReqBody, ReqQuery>, res: Response<ResBody>, next: NextFunction) => Promise<unknown>
+): RequestHandler<P, ResBody, ReqBody, ReqQuery> {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next)
+  }
+}
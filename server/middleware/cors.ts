@@ -0,0 +1,84 @@
+/**
+ * CORS Middleware
+ *
+ * Lets browser clients on other origins call the API. Only origins listed in
+ * `CORS_ORIGINS` are allowed; same-origin requests (the app itself) never need
+ * CORS and are unaffected.
+ *
+ * Allowed origins may send credentials (the session cookie) and read the
+ * `X-Request-Id`, `RateLimit-*` and `Retry-After` response headers. Preflight
+ * requests from other origins are rejected with 403.
+ *
+ * @example
+ * ```ts
+ * app.use('/api', cors({ origins: config.cors.origins }))
+ * ```
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express'
+import { ForbiddenError } from '../errors.js'
+
+export interface CorsOptions {
+  /** Exact origins allowed to call the API, e.g. `https://admin.example.com` */
+  origins: readonly string[]
+  /** Methods allowed in preflight responses (default: GET, HEAD, POST, PUT, PATCH, DELETE) */
+  methods?: string[]
+  /** Seconds browsers may cache a preflight response (default: 600) */
+  maxAge?: number
+}
+
+const DEFAULT_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+const EXPOSED_HEADERS = [
+  'X-Request-Id',
+  'RateLimit-Policy',
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+  'Retry-After',
+]
+
+/**
+ * Create the CORS middleware
+ *
+ * @param options - Allowed origins and preflight settings
+ */
+export function cors(options: CorsOptions): RequestHandler {
+  const allowed = new Set(options.origins)
+  const methods = (options.methods ?? DEFAULT_METHODS).join(', ')
+  const maxAge = String(options.maxAge ?? 600)
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.get('Origin')
+
+    // Responses differ per origin, so caches must key on it
+    res.vary('Origin')
+
+    if (!origin || origin === `${req.protocol}://${req.get('Host')}`) {
+      next()
+      return
+    }
+
+    const isPreflight = req.method === 'OPTIONS' && req.get('Access-Control-Request-Method') !== undefined
+
+    if (!allowed.has(origin)) {
+      next(isPreflight ? new ForbiddenError(`Origin ${origin} is not allowed`) : undefined)
+      return
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', origin)
+    res.setHeader('Access-Control-Allow-Credentials', 'true')
+
+    if (!isPreflight) {
+      res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS.join(', '))
+      next()
+      return
+    }
+
+    res.setHeader('Access-Control-Allow-Methods', methods)
+    res.setHeader('Access-Control-Allow-Headers', req.get('Access-Control-Request-Headers') ?? 'Content-Type')
+    res.setHeader('Access-Control-Max-Age', maxAge)
+    res.vary('Access-Control-Request-Headers')
+    res.status(204).end()
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Error Handler Middleware
+ *
+ * The final middleware registered by `createServer`. It renders every error
+ * that reaches Express as an RFC 7807 `application/problem+json` response.
+ *
+ * Features:
+ * - Typed errors: `HttpError` subclasses keep their status, title and extensions
+ * - Safe defaults: unexpected errors become a generic 500 without leaking details
+ * - Debugging: stack traces are included in development only
+ * - Tracing: every body carries the request's correlation id
+ */
+
+import type { NextFunction, Request, Response } from 'express'
+import { STATUS_CODES } from 'http'
+import { config } from '../config.js'
+import { HttpError } from '../errors.js'
+
+/**
+ * Shape of an error response body
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7807
+ */
+export interface ProblemDetails {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  correlationId?: string
+  stack?: string
+  [extension: string]: unknown
+}
+
+/**
+ * Errors raised by Express itself and body-parser carry a status code and an
+ * `expose` flag telling whether the message is safe to show to clients.
+ */
+function getStatus(error: unknown) {
+  if (error instanceof HttpError) return error.status
+
+  const candidate = error as { status?: unknown; statusCode?: unknown } | null
+  const status = candidate?.status ?? candidate?.statusCode
+
+  return typeof status === 'number' && status >= 400 && status < 600 ? status : 500
+}
+
+function toProblem(error: unknown, req: Request): ProblemDetails {
+  const status = getStatus(error)
+  const title = STATUS_CODES[status] ?? 'Error'
+
+  if (error instanceof HttpError) {
+    return {
+      ...error.extensions,
+      type: error.type,
+      title: error.title,
+      status,
+      detail: error.message,
+      instance: req.originalUrl,
+      correlationId: req.id,
+    }
+  }
+
+  const exposed = (error as { expose?: unknown } | null)?.expose === true
+
+  return {
+    type: 'about:blank',
+    title,
+    status,
+    detail: exposed && error instanceof Error ? error.message : 'An unexpected error occurred',
+    instance: req.originalUrl,
+    correlationId: req.id,
+  }
+}
+
+/**
+ * Render errors as `application/problem+json`
+ *
+ * Must be registered after every route and after the Vite/static middleware.
+ */
+export function errorHandler(error: unknown, req: Request, res: Response, next: NextFunction) {
+  // Express must close the connection itself once a response has started
+  if (res.headersSent) {
+    next(error)
+    return
+  }
+
+  const problem = toProblem(error, req)
+
+  if (problem.status >= 500) {
+    req.log.error(`❌ ${req.method} ${req.originalUrl} failed`, { err: error })
+  }
+
+  if (config.isDev && error instanceof Error) {
+    problem.stack = error.stack
+  }
+
+  if (error instanceof HttpError) {
+    res.set(error.headers)
+  }
+
+  res.status(problem.status).type('application/problem+json').json(problem)
+}
@@ -0,0 +1,67 @@
+/**
+ * Not Found Middleware
+ *
+ * Terminal handlers for requests no route answered, rendered as problem+json
+ * by the error handler:
+ * - `apiNotFound(router)` closes the `/api` namespace: 405 with an `Allow`
+ *   header when the path exists with other methods, 404 otherwise
+ * - `notFound` is the last resort for everything else (e.g. missing assets)
+ *
+ * @example
+ * ```ts
+ * app.use('/api', apiRoutes, apiNotFound(apiRoutes))
+ * ```
+ */
+
+import type { NextFunction, Request, RequestHandler, Response, Router } from 'express'
+import { MethodNotAllowedError, NotFoundError } from '../errors.js'
+
+/**
+ * Methods the router's routes accept for `path`
+ *
+ * Only routes registered directly on the router are considered, not routes
+ * of nested routers mounted with `router.use`. Returns `undefined` when a
+ * route matching the path accepts every method (`router.all`).
+ */
+function allowedMethods(router: Router, path: string) {
+  const allowed = new Set<string>()
+
+  for (const layer of router.stack) {
+    if (!layer.route || !layer.regexp.test(path)) continue
+
+    for (const { method } of layer.route.stack) {
+      if (!method) return undefined
+      allowed.add(method.toUpperCase())
+    }
+  }
+
+  if (allowed.has('GET')) allowed.add('HEAD')
+
+  return [...allowed]
+}
+
+/**
+ * Create the terminal handler of an API namespace
+ *
+ * Mount it right after the router, under the same path.
+ *
+ * @param router - Router whose routes decide between 404 and 405
+ */
+export function apiNotFound(router: Router): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const allowed = allowedMethods(router, req.path)
+
+    if (allowed && allowed.length > 0) {
+      next(new MethodNotAllowedError(req.method, allowed))
+    } else {
+      next(new NotFoundError(`No API route matches ${req.method} ${req.originalUrl}`))
+    }
+  }
+}
+
+/**
+ * Answer every remaining request with a 404
+ */
+export function notFound(req: Request, _res: Response, next: NextFunction) {
+  next(new NotFoundError(`Nothing found at ${req.originalUrl}`))
+}
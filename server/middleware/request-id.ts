@@ -0,0 +1,38 @@
+/**
+ * Request ID Middleware
+ *
+ * Assigns every request a correlation id, exposes it as `req.id` and echoes
+ * it back in the `X-Request-Id` response header. An id supplied by an upstream
+ * proxy is reused so a request can be traced across services.
+ *
+ * Also attaches `req.log`, a child logger that stamps the id on every line.
+ */
+
+import type { NextFunction, Request, Response } from 'express'
+import { nanoid } from 'nanoid'
+import { logger, type Logger } from '../logger.js'
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Correlation id of the request, also sent as `X-Request-Id` */
+    id: string
+    /** Logger bound to this request's id */
+    log: Logger
+  }
+}
+
+// Only accept reasonably short, printable ids from clients
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/
+
+/**
+ * Attach a correlation id and request-scoped logger
+ */
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.get('X-Request-Id')
+
+  req.id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : nanoid()
+  req.log = logger.child({ source: 'http', requestId: req.id })
+  res.setHeader('X-Request-Id', req.id)
+
+  next()
+}
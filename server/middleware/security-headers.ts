@@ -0,0 +1,106 @@
+/**
+ * Security Headers Middleware
+ *
+ * Sets the browser security headers for every response and a per-request
+ * Content-Security-Policy nonce. HTML pages must carry the nonce on their
+ * `<script>` tags; `setupVite` and `serveStatic` add it with `injectNonce`.
+ *
+ * Headers:
+ * - `Content-Security-Policy`: scripts only from this origin, nonced inline
+ *   scripts and the make.inc preview bridge (`https://cdn.make.inc`)
+ * - `Strict-Transport-Security`: production only, so localhost is never pinned to HTTPS
+ * - `X-Content-Type-Options: nosniff`
+ * - `Referrer-Policy: strict-origin-when-cross-origin`
+ *
+ * Pages may only be framed by this origin and the make.inc preview
+ * (`frame-ancestors`), since the preview bridge runs the app inside an iframe.
+ */
+
+import { randomBytes } from 'crypto'
+import type { NextFunction, Request, RequestHandler, Response } from 'express'
+
+declare module 'express-serve-static-core' {
+  interface Locals {
+    /** Nonce allowed by this response's Content-Security-Policy */
+    cspNonce: string
+  }
+}
+
+export type CspDirectives = Record<string, string[]>
+
+export interface SecurityHeadersOptions {
+  /** Development allows Vite's HMR websocket and skips HSTS */
+  isDev: boolean
+  /** Extra sources merged into the default CSP directives, e.g. `{ 'img-src': ['https://images.example.com'] }` */
+  directives?: CspDirectives
+}
+
+/** Origin serving the make.inc preview bridge script in `client/index.html` */
+export const PREVIEW_BRIDGE_ORIGIN = 'https://cdn.make.inc'
+
+const HSTS_MAX_AGE = 60 * 60 * 24 * 365
+
+function buildDirectives(isDev: boolean, extra: CspDirectives = {}): CspDirectives {
+  const directives: CspDirectives = {
+    'default-src': ["'self'"],
+    'script-src': ["'self'", PREVIEW_BRIDGE_ORIGIN],
+    // Radix and sonner inject <style> elements at runtime
+    'style-src': ["'self'", "'unsafe-inline'"],
+    'img-src': ["'self'", 'data:', 'blob:'],
+    'font-src': ["'self'", 'data:'],
+    'connect-src': ["'self'", ...(isDev ? ['ws:', 'wss:'] : [])],
+    'frame-ancestors': ["'self'", 'https://*.make.inc'],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+  }
+
+  for (const [name, sources] of Object.entries(extra)) {
+    directives[name] = [...(directives[name] ?? []), ...sources]
+  }
+
+  return directives
+}
+
+/**
+ * Add the CSP nonce to every `<script>` tag of an HTML page
+ *
+ * @param html - Page markup
+ * @param nonce - `res.locals.cspNonce` of the current response
+ */
+export function injectNonce(html: string, nonce: string) {
+  return html.replace(/<script\b(?![^>]*\bnonce=)/gi, `<script nonce="${nonce}"`)
+}
+
+/**
+ * Create the security headers middleware
+ *
+ * Register it before any route so API and page responses are both covered.
+ *
+ * @param options - Environment and extra CSP sources
+ */
+export function securityHeaders(options: SecurityHeadersOptions): RequestHandler {
+  const directives = buildDirectives(options.isDev, options.directives)
+
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const nonce = randomBytes(16).toString('base64')
+    res.locals.cspNonce = nonce
+
+    const policy = Object.entries(directives)
+      .map(([name, sources]) => {
+        const values = name === 'script-src' ? [...sources, `'nonce-${nonce}'`] : sources
+        return `${name} ${values.join(' ')}`
+      })
+      .join('; ')
+
+    res.setHeader('Content-Security-Policy', policy)
+    res.setHeader('X-Content-Type-Options', 'nosniff')
+    res.setHeader('Referrer-Policy', 'strict-origin-when-cross-origin')
+
+    if (!options.isDev) {
+      res.setHeader('Strict-Transport-Security', `max-age=${HSTS_MAX_AGE}; includeSubDomains`)
+    }
+
+    next()
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Static Assets Middleware
+ *
+ * Serves the production client build with caching and precompression.
+ *
+ * Features:
+ * - Fingerprinted files (`/assets/*`, named after their content hash) are cached
+ *   for a year and marked `immutable`
+ * - Every other file must be revalidated (`no-cache`) using its ETag
+ * - `.br` and `.gz` variants written by the build are served to clients that
+ *   accept them, with `Content-Encoding` and `Vary: Accept-Encoding`
+ *
+ * The HTML shell is not served here; see `serveStatic` in `server/vite.ts`.
+ */
+
+import express, { type NextFunction, type Request, type RequestHandler, type Response } from 'express'
+import fs from 'fs'
+import path from 'path'
+
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365
+
+/** Precompressed variants by preference; brotli is smaller, gzip is universal */
+const ENCODINGS = [
+  { name: 'br', extension: '.br' },
+  { name: 'gzip', extension: '.gz' },
+] as const
+
+type Encoding = (typeof ENCODINGS)[number]['name']
+
+function listFiles(directory: string, root = directory): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(directory, entry.name)
+    return entry.isDirectory() ? listFiles(fullPath, root) : ['/' + path.relative(root, fullPath).split(path.sep).join('/')]
+  })
+}
+
+/**
+ * Find the precompressed variants of every file in the build
+ *
+ * Scanned once at startup; the build output does not change while serving.
+ */
+function findVariants(root: string) {
+  const files = new Set(listFiles(root))
+  const variants = new Map<string, Encoding[]>()
+
+  for (const file of files) {
+    const available = ENCODINGS.filter(({ extension }) => files.has(file + extension)).map(({ name }) => name)
+    if (available.length > 0) variants.set(file, available)
+  }
+
+  return variants
+}
+
+/**
+ * Create middleware serving the files of a client build directory
+ *
+ * Requests that match no file fall through to `next()`.
+ *
+ * @param root - Build output directory, e.g. `dist/client`
+ */
+export function staticAssets(root: string): RequestHandler {
+  const variants = findVariants(root)
+
+  const serve = express.static(root, {
+    index: false,
+    // Directories are pages (prerendered or SPA routes), not file listings
+    redirect: false,
+    etag: true,
+    lastModified: true,
+    setHeaders(res, filePath) {
+      const isFingerprinted = path.relative(root, filePath).startsWith(`assets${path.sep}`)
+
+      res.setHeader(
+        'Cache-Control',
+        isFingerprinted ? `public, max-age=${ONE_YEAR_SECONDS}, immutable` : 'no-cache'
+      )
+    },
+  })
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const available = variants.get(req.path)
+
+    if (available && (req.method === 'GET' || req.method === 'HEAD')) {
+      res.vary('Accept-Encoding')
+
+      // Prefer our own order (brotli first); clients usually list gzip first with equal weight
+      const encoding = ENCODINGS.find(({ name }) => available.includes(name) && req.acceptsEncodings(name))
+
+      if (encoding) {
+        const { name, extension } = encoding
+
+        // `send` keeps a Content-Type that is already set, so the variant is
+        // labelled with the original file's type rather than `.br`/`.gz`
+        res.type(path.extname(req.path))
+        res.setHeader('Content-Encoding', name)
+        req.url = req.url.replace(req.path, req.path + extension)
+      }
+    }
+
+    serve(req, res, next)
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Request Validation Middleware
+ *
+ * Validates `req.body`, `req.query` and `req.params` against zod schemas —
+ * typically the drizzle-zod insert schemas from `shared/schema.ts` — and
+ * replaces them with the parsed, typed output.
+ *
+ * Invalid requests are rejected with a `ValidationError` whose `errors` map is
+ * keyed by field path and holds `{ type, message }` entries, so the client can
+ * pass each entry straight to react-hook-form's `setError`.
+ *
+ * @example
+ * ```ts
+ * import { insertUserSchema } from '../../shared/schema.js'
+ *
+ * router.post('/users', validate({ body: insertUserSchema }), asyncHandler(async (req, res) => {
+ *   // req.body is typed as z.output<typeof insertUserSchema>
+ *   res.status(201).json(await userRepository.insert(req.body))
+ * }))
+ * ```
+ *
+ * Error response body:
+ * ```json
+ * {
+ *   "type": "about:blank",
+ *   "title": "Validation Failed",
+ *   "status": 400,
+ *   "detail": "The request body is invalid",
+ *   "errors": {
+ *     "email": { "type": "invalid_format", "message": "Invalid email address" }
+ *   }
+ * }
+ * ```
+ */
+
+import type { RequestHandler } from 'express'
+import type { ParamsDictionary, Query } from 'express-serve-static-core'
+import type { z } from 'zod'
+import { ValidationError } from '../errors.js'
+
+type Schema = z.ZodType
+
+export interface ValidationSchemas<
+  TBody extends Schema | undefined = undefined,
+  TQuery extends Schema | undefined = undefined,
+  TParams extends Schema | undefined = undefined,
+> {
+  body?: TBody
+  query?: TQuery
+  params?: TParams
+}
+
+type Output<TSchema, TFallback> = TSchema extends Schema ? z.output<TSchema> : TFallback
+
+type Location = 'body' | 'query' | 'params'
+
+/**
+ * Convert zod issues into a react-hook-form compatible error map
+ *
+ * Body fields are keyed by their plain path (`address.city`), query and params
+ * fields are prefixed with their location (`query.page`). Issues without a path
+ * are reported under `root`, react-hook-form's key for form-level errors.
+ * Only the first issue per field is kept, matching react-hook-form's model.
+ *
+ * @param issues - Issues from a failed `safeParse`
+ * @param location - Part of the request the issues belong to
+ */
+export function toFieldErrors(issues: z.core.$ZodIssue[], location: Location = 'body') {
+  const errors: ValidationError['errors'] = {}
+
+  for (const issue of issues) {
+    const segments = issue.path.map(String)
+    if (location !== 'body') segments.unshift(location)
+
+    const key = segments.length > 0 ? segments.join('.') : 'root'
+    errors[key] ??= { type: issue.code, message: issue.message }
+  }
+
+  return errors
+}
+
+/**
+ * Validate request data with zod schemas
+ *
+ * @param schemas - Schemas for any of `body`, `query` and `params`
+ * @returns Middleware that replaces the validated parts with the parsed output
+ */
+export function validate<
+  TBody extends Schema | undefined = undefined,
+  TQuery extends Schema | undefined = undefined,
+  TParams extends Schema | undefined = undefined,
+>(
+  schemas: ValidationSchemas<TBody, TQuery, TParams>
+): RequestHandler<Output<TParams, ParamsDictionary>, unknown, Output<TBody, unknown>, Output<TQuery, Query>> {
+  const locations = (['params', 'query', 'body'] as const).filter((location) => schemas[location])
+
+  return (req, _res, next) => {
+    const errors: ValidationError['errors'] = {}
+    const failed: Location[] = []
+
+    for (const location of locations) {
+      const result = (schemas[location] as Schema).safeParse(req[location])
+
+      if (result.success) {
+        // Express 4 exposes these as plain writable properties
+        Object.assign(req, { [location]: result.data })
+      } else {
+        failed.push(location)
+        Object.assign(errors, toFieldErrors(result.error.issues, location))
+      }
+    }
+
+    if (failed.length > 0) {
+      const detail = failed.length === 1
+        ? `The request ${failed[0]} is invalid`
+        : `The request ${failed.join(' and ')} are invalid`
+
+      next(new ValidationError(detail, errors))
+      return
+    }
+
+    next()
+  }
+}
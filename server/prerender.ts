@@ -0,0 +1,68 @@
+/**
+ * Prerender Script
+ *
+ * Build step that renders the routes listed in `client/constants/prerender.ts`
+ * to static HTML. Runs after the client, SSR and server builds
+ * (`npm run build:prerender`, part of `npm run build`).
+ *
+ * For every route it writes `dist/client/<path>/index.html` with the rendered
+ * markup and the head the page sets with `useDocumentHead`. The untouched client shell is
+ * kept as `dist/client/shell.html`, because `/` overwrites `index.html`;
+ * `serveStatic` uses the shell for every route that was not prerendered.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { logger } from './logger.js'
+import { SHELL_FILE, renderToHtml, type SsrEntry } from './ssr.js'
+
+const log = logger.child({ source: 'prerender' })
+
+const CLIENT_DIR = path.resolve('dist/client')
+const SSR_ENTRY = path.resolve('dist/ssr/entry-server.js')
+
+/**
+ * File a route is written to, e.g. `/pricing` -> `dist/client/pricing/index.html`
+ */
+function outputFile(routePath: string) {
+  const segments = routePath.split('/').filter(Boolean)
+  const file = path.resolve(CLIENT_DIR, ...segments, 'index.html')
+
+  if (!file.startsWith(CLIENT_DIR + path.sep)) {
+    throw new Error(`Route ${routePath} resolves outside of ${CLIENT_DIR}`)
+  }
+
+  return file
+}
+
+async function prerender() {
+  const shellPath = path.join(CLIENT_DIR, SHELL_FILE)
+
+  // Rebuilding without a fresh client build must not prerender into an already prerendered page
+  if (!fs.existsSync(shellPath)) {
+    fs.copyFileSync(path.join(CLIENT_DIR, 'index.html'), shellPath)
+  }
+
+  const template = fs.readFileSync(shellPath, 'utf-8')
+  const entry = await import(pathToFileURL(SSR_ENTRY).href) as SsrEntry
+
+  for (const route of entry.prerenderRoutes) {
+    const { html, statusCode } = await renderToHtml(entry, route.path, template)
+
+    if (statusCode !== 200) {
+      throw new Error(`Route ${route.path} rendered with status ${statusCode}, remove it from the prerender list`)
+    }
+
+    const file = outputFile(route.path)
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, html)
+
+    log.info(`📄 Prerendered ${route.path}`, { file: path.relative(process.cwd(), file) })
+  }
+}
+
+prerender().catch((error) => {
+  log.error('❌ Prerendering failed', { err: error })
+  process.exit(1)
+})
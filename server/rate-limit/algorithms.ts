@@ -0,0 +1,119 @@
+/**
+ * Rate Limit Algorithms
+ *
+ * Pure functions that decide whether a request is allowed, given the stored
+ * state for its key. Stores persist the state; algorithms never do I/O, so the
+ * same policy behaves identically in memory and in Postgres.
+ *
+ * Algorithms:
+ * - `fixedWindow`: at most `limit` requests per `windowMs`, counter resets at the window end
+ * - `tokenBucket`: bursts up to `capacity`, refilled continuously at `refillPerSecond`
+ */
+
+/**
+ * Persisted state of one rate limit key
+ *
+ * For a fixed window, `value` is the request count and `timestamp` the window
+ * start. For a token bucket, `value` is the tokens left and `timestamp` the
+ * last refill. Both are in milliseconds since the epoch.
+ */
+export interface RateLimitState {
+  value: number
+  timestamp: number
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  /** Maximum number of requests in a full window or bucket */
+  limit: number
+  /** Requests left right now */
+  remaining: number
+  /** Milliseconds until the quota is fully restored */
+  resetMs: number
+  /** Milliseconds until the next request would be allowed (0 when allowed) */
+  retryAfterMs: number
+}
+
+export interface RateLimitAlgorithm {
+  /** Value of the `RateLimit-Policy` header, e.g. `100;w=60` */
+  readonly policy: string
+  /** How long state must be kept after the last request */
+  readonly ttlMs: number
+  consume(state: RateLimitState | undefined, now: number): { state: RateLimitState; decision: RateLimitDecision }
+}
+
+export interface FixedWindowOptions {
+  /** Requests allowed per window */
+  limit: number
+  /** Window length in milliseconds */
+  windowMs: number
+}
+
+/**
+ * At most `limit` requests per window
+ *
+ * Cheap and easy to reason about; a client can send up to twice the limit
+ * around a window boundary.
+ */
+export function fixedWindow({ limit, windowMs }: FixedWindowOptions): RateLimitAlgorithm {
+  return {
+    policy: `${limit};w=${Math.ceil(windowMs / 1000)}`,
+    ttlMs: windowMs,
+    consume(state, now) {
+      const current = state && now - state.timestamp < windowMs ? state : { value: 0, timestamp: now }
+      const allowed = current.value < limit
+      const next = allowed ? { value: current.value + 1, timestamp: current.timestamp } : current
+      const resetMs = current.timestamp + windowMs - now
+
+      return {
+        state: next,
+        decision: {
+          allowed,
+          limit,
+          remaining: limit - next.value,
+          resetMs,
+          retryAfterMs: allowed ? 0 : resetMs,
+        },
+      }
+    },
+  }
+}
+
+export interface TokenBucketOptions {
+  /** Largest burst a client can send */
+  capacity: number
+  /** Tokens added back per second */
+  refillPerSecond: number
+}
+
+/**
+ * Bursts up to `capacity`, then a steady `refillPerSecond`
+ *
+ * Smooths traffic without the boundary spikes of a fixed window.
+ */
+export function tokenBucket({ capacity, refillPerSecond }: TokenBucketOptions): RateLimitAlgorithm {
+  const msPerToken = 1000 / refillPerSecond
+  const fullRefillMs = capacity * msPerToken
+
+  return {
+    policy: `${capacity};w=${Math.ceil(fullRefillMs / 1000)}`,
+    ttlMs: fullRefillMs,
+    consume(state, now) {
+      const elapsed = state ? Math.max(0, now - state.timestamp) : 0
+      const tokens = state ? Math.min(capacity, state.value + elapsed / msPerToken) : capacity
+      const allowed = tokens >= 1
+      const left = allowed ? tokens - 1 : tokens
+
+      return {
+        state: { value: left, timestamp: now },
+        decision: {
+          allowed,
+          limit: capacity,
+          remaining: Math.floor(left),
+          resetMs: Math.ceil((capacity - left) * msPerToken),
+          retryAfterMs: allowed ? 0 : Math.ceil((1 - left) * msPerToken),
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import type { Request, Response } from 'express'
+import { describe, expect, it } from 'vitest'
+import { TooManyRequestsError } from '../errors.js'
+import { fixedWindow } from './algorithms.js'
+import { rateLimit, type RateLimitHandler } from './middleware.js'
+import { MemoryStore } from './store.js'
+
+function request(ip: string) {
+  return { ip, socket: {}, log: { warn: () => undefined }, get: () => undefined } as unknown as Request
+}
+
+// Resolves with what the middleware passed to `next`
+function run(handler: RateLimitHandler, req: Request) {
+  const headers: Record<string, unknown> = {}
+  const res = { setHeader: (name: string, value: unknown) => (headers[name] = value) } as unknown as Response
+
+  return new Promise<{ error: unknown; headers: Record<string, unknown> }>((resolve) => {
+    void handler(req, res, (error?: unknown) => resolve({ error, headers }))
+  })
+}
+
+describe('rateLimit', () => {
+  const limiter = () => rateLimit({
+    name: 'test',
+    algorithm: fixedWindow({ limit: 2, windowMs: 60_000 }),
+    key: 'ip',
+    store: new MemoryStore(),
+  })
+
+  it('sets the rate limit headers and rejects once the quota is used up', async () => {
+    const limit = limiter()
+
+    const first = await run(limit, request('10.0.0.1'))
+    expect(first.error).toBeUndefined()
+    expect(first.headers).toMatchObject({ 'RateLimit-Policy': '2;w=60', 'RateLimit-Limit': 2, 'RateLimit-Remaining': 1 })
+
+    await run(limit, request('10.0.0.1'))
+    const third = await run(limit, request('10.0.0.1'))
+    expect(third.error).toBeInstanceOf(TooManyRequestsError)
+
+    expect((await run(limit, request('10.0.0.2'))).error).toBeUndefined()
+  })
+
+  it('forgets the client of a request on reset', async () => {
+    const limit = limiter()
+
+    await run(limit, request('10.0.0.1'))
+    await run(limit, request('10.0.0.1'))
+    await limit.reset(request('10.0.0.1'))
+
+    expect((await run(limit, request('10.0.0.1'))).error).toBeUndefined()
+  })
+})
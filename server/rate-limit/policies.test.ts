@@ -0,0 +1,66 @@
+import type { Request, RequestHandler, Response } from 'express'
+import { describe, expect, it } from 'vitest'
+import { TooManyRequestsError } from '../errors.js'
+import { loginIpRateLimit, loginRateLimit } from './policies.js'
+
+let nextIp = 0
+
+// Every test gets its own address, since the policies share the default store
+function client() {
+  const ip = `10.1.0.${++nextIp}`
+  return (email: string) => ({ ip, socket: {}, body: { email }, log: { warn: () => undefined }, get: () => undefined }) as unknown as Request
+}
+
+// Resolves with what the middleware passed to `next`
+function run(handler: RequestHandler, req: Request) {
+  const res = { setHeader: () => undefined } as unknown as Response
+  return new Promise<unknown>((resolve) => {
+    void handler(req, res, (error?: unknown) => resolve(error))
+  })
+}
+
+describe('loginRateLimit', () => {
+  it('counts attempts per email', async () => {
+    const request = client()
+
+    for (let i = 0; i < 10; i++) await run(loginRateLimit, request('victim@example.com'))
+
+    expect(await run(loginRateLimit, request('victim@example.com'))).toBeInstanceOf(TooManyRequestsError)
+    expect(await run(loginRateLimit, request(' Victim@Example.com '))).toBeInstanceOf(TooManyRequestsError)
+    expect(await run(loginRateLimit, request('someone@example.com'))).toBeUndefined()
+  })
+
+  it('does not free attempts against one account when another signs in', async () => {
+    const request = client()
+
+    for (let i = 0; i < 9; i++) await run(loginRateLimit, request('victim@example.com'))
+
+    // The attacker signs in to their own account from the same address
+    await run(loginRateLimit, request('attacker@example.com'))
+    await loginRateLimit.reset(request('attacker@example.com'))
+
+    expect(await run(loginRateLimit, request('victim@example.com'))).toBeUndefined()
+    expect(await run(loginRateLimit, request('victim@example.com'))).toBeInstanceOf(TooManyRequestsError)
+  })
+
+  it('frees the attempts of the account that signed in', async () => {
+    const request = client()
+
+    for (let i = 0; i < 10; i++) await run(loginRateLimit, request('user@example.com'))
+    await loginRateLimit.reset(request('user@example.com'))
+
+    expect(await run(loginRateLimit, request('user@example.com'))).toBeUndefined()
+  })
+})
+
+describe('loginIpRateLimit', () => {
+  it('bounds attempts from one address across all emails', async () => {
+    const request = client()
+
+    for (let i = 0; i < 100; i++) {
+      expect(await run(loginIpRateLimit, request(`user${i}@example.com`))).toBeUndefined()
+    }
+
+    expect(await run(loginIpRateLimit, request('another@example.com'))).toBeInstanceOf(TooManyRequestsError)
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * Rate Limit Policies
+ *
+ * The limits applied to the API. Tune them here rather than at the call sites.
+ */
+
+import { createHash } from 'crypto'
+import { fixedWindow, tokenBucket } from './algorithms.js'
+import { rateLimit } from './middleware.js'
+
+/**
+ * Baseline for every `/api` request: bursts of 120, then 2 requests per second,
+ * per signed-in user (or IP address for anonymous requests)
+ */
+export const apiRateLimit = rateLimit({
+  name: 'api',
+  algorithm: tokenBucket({ capacity: 120, refillPerSecond: 2 }),
+  key: 'user',
+})
+
+/**
+ * Registration: 10 attempts per 15 minutes per IP address
+ */
+export const authRateLimit = rateLimit({
+  name: 'auth',
+  algorithm: fixedWindow({ limit: 10, windowMs: 15 * 60_000 }),
+  key: 'ip',
+})
+
+/**
+ * Login attempts for one account: 10 per 15 minutes per IP address and email.
+ * A successful login resets only the count of the email that signed in, so
+ * signing in to one account never frees guesses against another.
+ */
+export const loginRateLimit = rateLimit({
+  name: 'login',
+  algorithm: fixedWindow({ limit: 10, windowMs: 15 * 60_000 }),
+  key: (req) => {
+    const email = (req.body as { email?: unknown } | undefined)?.email
+    if (typeof email !== 'string') return undefined
+
+    // Normalized like `loginSchema`, and hashed so stored keys hold no addresses
+    const hash = createHash('sha256').update(email.trim().toLowerCase()).digest('hex')
+    return `ip:${req.ip ?? req.socket.remoteAddress ?? 'unknown'}:email:${hash}`
+  },
+})
+
+/**
+ * Login attempts across all accounts: 100 per 15 minutes per IP address,
+ * never reset, so trying many emails from one address stays bounded
+ */
+export const loginIpRateLimit = rateLimit({
+  name: 'login-ip',
+  algorithm: fixedWindow({ limit: 100, windowMs: 15 * 60_000 }),
+  key: 'ip',
+})
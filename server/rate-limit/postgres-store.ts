@@ -0,0 +1,62 @@
+/**
+ * Postgres Rate Limit Store
+ *
+ * Keeps rate limit state in the `rate_limits` table so every server instance
+ * enforces the same limits. Each `consume` runs in a transaction holding an
+ * advisory lock on the key, so concurrent requests for one key are applied one
+ * after the other and never lose an update.
+ *
+ * Expired rows are deleted every five minutes.
+ */
+
+import { eq, lt, sql } from 'drizzle-orm'
+import { rateLimits } from '../../shared/schema.js'
+import { db as defaultDb, type Database } from '../db/index.js'
+import { logger } from '../logger.js'
+import type { RateLimitAlgorithm } from './algorithms.js'
+import type { RateLimitStore } from './store.js'
+
+const log = logger.child({ source: 'rate-limit' })
+
+export class PostgresStore implements RateLimitStore {
+  constructor(
+    private readonly database: Database = defaultDb,
+    pruneIntervalMs = 5 * 60_000
+  ) {
+    setInterval(() => void this.prune(), pruneIntervalMs).unref()
+  }
+
+  async consume(key: string, algorithm: RateLimitAlgorithm) {
+    return this.database.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${key}))`)
+
+      const [row] = await tx.select().from(rateLimits).where(eq(rateLimits.key, key))
+      const now = Date.now()
+      const current = row && row.expiresAt.getTime() > now
+        ? { value: row.value, timestamp: row.timestampMs }
+        : undefined
+
+      const { state, decision } = algorithm.consume(current, now)
+      const values = { value: state.value, timestampMs: state.timestamp, expiresAt: new Date(now + algorithm.ttlMs) }
+
+      await tx
+        .insert(rateLimits)
+        .values({ key, ...values })
+        .onConflictDoUpdate({ target: rateLimits.key, set: values })
+
+      return decision
+    })
+  }
+
+  async reset(key: string) {
+    await this.database.delete(rateLimits).where(eq(rateLimits.key, key))
+  }
+
+  private async prune() {
+    try {
+      await this.database.delete(rateLimits).where(lt(rateLimits.expiresAt, new Date()))
+    } catch (error) {
+      log.warn('⚠️ Failed to prune expired rate limits', { err: error })
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fixedWindow, tokenBucket } from './algorithms.js'
+import { MemoryStore } from './store.js'
+
+describe('MemoryStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('with a fixed window', () => {
+    const algorithm = fixedWindow({ limit: 3, windowMs: 60_000 })
+
+    it('allows `limit` requests per window, then rejects until it ends', async () => {
+      const store = new MemoryStore()
+
+      const decisions = []
+      for (let i = 0; i < 4; i++) decisions.push(await store.consume('key', algorithm))
+
+      expect(decisions.map((decision) => decision.allowed)).toEqual([true, true, true, false])
+      expect(decisions.map((decision) => decision.remaining)).toEqual([2, 1, 0, 0])
+      expect(decisions[3].retryAfterMs).toBe(60_000)
+
+      vi.advanceTimersByTime(59_999)
+      expect((await store.consume('key', algorithm)).allowed).toBe(false)
+
+      vi.advanceTimersByTime(1)
+      expect(await store.consume('key', algorithm)).toMatchObject({ allowed: true, remaining: 2 })
+    })
+
+    it('counts keys separately', async () => {
+      const store = new MemoryStore()
+
+      for (let i = 0; i < 3; i++) await store.consume('a', algorithm)
+
+      expect((await store.consume('a', algorithm)).allowed).toBe(false)
+      expect((await store.consume('b', algorithm)).allowed).toBe(true)
+    })
+
+    it('starts over after a reset', async () => {
+      const store = new MemoryStore()
+
+      for (let i = 0; i < 3; i++) await store.consume('key', algorithm)
+      await store.reset('key')
+
+      expect(await store.consume('key', algorithm)).toMatchObject({ allowed: true, remaining: 2 })
+    })
+  })
+
+  describe('with a token bucket', () => {
+    const algorithm = tokenBucket({ capacity: 2, refillPerSecond: 1 })
+
+    it('allows a burst of `capacity`, then refills one token per interval', async () => {
+      const store = new MemoryStore()
+
+      expect((await store.consume('key', algorithm)).allowed).toBe(true)
+      expect((await store.consume('key', algorithm)).allowed).toBe(true)
+
+      const rejected = await store.consume('key', algorithm)
+      expect(rejected.allowed).toBe(false)
+      expect(rejected.retryAfterMs).toBe(1000)
+
+      vi.advanceTimersByTime(1000)
+      expect((await store.consume('key', algorithm)).allowed).toBe(true)
+      expect((await store.consume('key', algorithm)).allowed).toBe(false)
+    })
+
+    it('never refills past capacity', async () => {
+      const store = new MemoryStore()
+
+      await store.consume('key', algorithm)
+      vi.advanceTimersByTime(60_000)
+
+      expect((await store.consume('key', algorithm)).remaining).toBe(1)
+    })
+  })
+
+  it('forgets keys once their state expires', async () => {
+    const store = new MemoryStore(1000)
+    const algorithm = fixedWindow({ limit: 1, windowMs: 5000 })
+
+    await store.consume('key', algorithm)
+    expect((await store.consume('key', algorithm)).allowed).toBe(false)
+
+    vi.advanceTimersByTime(5000)
+    expect((await store.consume('key', algorithm)).allowed).toBe(true)
+  })
+})
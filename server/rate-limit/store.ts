@@ -0,0 +1,52 @@
+/**
+ * Rate Limit Stores
+ *
+ * A store keeps the state of every rate limit key and applies an algorithm to
+ * it atomically. `MemoryStore` is the default and is enough for a single
+ * instance; use `PostgresStore` (`RATE_LIMIT_STORE=postgres`) when several
+ * instances must share their limits.
+ */
+
+import type { RateLimitAlgorithm, RateLimitDecision, RateLimitState } from './algorithms.js'
+
+export interface RateLimitStore {
+  /** Apply `algorithm` to the state of `key` and persist the result */
+  consume(key: string, algorithm: RateLimitAlgorithm): Promise<RateLimitDecision>
+  /** Forget the state of `key`, e.g. after a successful login */
+  reset(key: string): Promise<void>
+}
+
+/**
+ * In-process store backed by a `Map`
+ *
+ * Expired keys are swept once a minute.
+ */
+export class MemoryStore implements RateLimitStore {
+  private readonly entries = new Map<string, { state: RateLimitState; expiresAt: number }>()
+
+  constructor(sweepIntervalMs = 60_000) {
+    setInterval(() => this.sweep(), sweepIntervalMs).unref()
+  }
+
+  async consume(key: string, algorithm: RateLimitAlgorithm) {
+    const now = Date.now()
+    const entry = this.entries.get(key)
+    const { state, decision } = algorithm.consume(entry && entry.expiresAt > now ? entry.state : undefined, now)
+
+    this.entries.set(key, { state, expiresAt: now + algorithm.ttlMs })
+
+    return decision
+  }
+
+  async reset(key: string) {
+    this.entries.delete(key)
+  }
+
+  private sweep() {
+    const now = Date.now()
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key)
+    }
+  }
+}
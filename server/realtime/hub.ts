@@ -0,0 +1,64 @@
+/**
+ * Realtime Hub
+ *
+ * In-process registry of topic subscribers. `publish` delivers a payload to
+ * every connection subscribed to the topic, whatever its transport.
+ *
+ * Delivery is limited to clients connected to this process; with several
+ * instances, publish from each instance (or fan out through a shared
+ * channel) so every client is reached.
+ */
+
+import type { ServerMessage } from '../../shared/realtime.js'
+
+export type Subscriber = (message: ServerMessage) => void
+
+const topics = new Map<string, Set<Subscriber>>()
+
+/**
+ * Add a subscriber to a topic
+ *
+ * @returns Function that removes the subscription
+ */
+export function subscribe(topic: string, subscriber: Subscriber) {
+  let subscribers = topics.get(topic)
+  if (!subscribers) {
+    subscribers = new Set()
+    topics.set(topic, subscribers)
+  }
+  subscribers.add(subscriber)
+
+  return () => {
+    subscribers.delete(subscriber)
+    if (subscribers.size === 0) topics.delete(topic)
+  }
+}
+
+/**
+ * Send a payload to every subscriber of a topic
+ *
+ * Authorization happens when clients subscribe, so anything published to a
+ * topic is visible to everyone allowed on it.
+ *
+ * @param topic - Topic such as `user:42`
+ * @param payload - JSON-serializable data
+ * @returns Number of subscribers the message was delivered to
+ */
+export function publish(topic: string, payload: unknown) {
+  const subscribers = topics.get(topic)
+  if (!subscribers) return 0
+
+  const message: ServerMessage = { type: 'message', topic, payload }
+  for (const subscriber of subscribers) subscriber(message)
+
+  return subscribers.size
+}
+
+/**
+ * Number of open subscriptions, reported by the health check
+ */
+export function subscriptionCount() {
+  let count = 0
+  for (const subscribers of topics.values()) count += subscribers.size
+  return count
+}
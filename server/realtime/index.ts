@@ -0,0 +1,51 @@
+/**
+ * Realtime Module
+ *
+ * Topic-based pub/sub to browsers over a WebSocket on the application's own
+ * HTTP server, with a Server-Sent Events fallback. Route handlers (and jobs
+ * running in the web server) push updates with `publish`; the client
+ * listens with `useSubscription` from `client/lib/realtime.ts`.
+ *
+ * Who may subscribe to what is decided by the rules in `./topics.ts`.
+ *
+ * @example
+ * ```ts
+ * import { publish } from '../realtime/index.js'
+ *
+ * publish(`user:${req.user!.id}`, { type: 'file-uploaded', file })
+ * ```
+ */
+
+import type { Server } from 'http'
+import { registerHealthCheck } from '../health.js'
+import { onDrain } from '../shutdown.js'
+import { subscriptionCount } from './hub.js'
+import { closeEventStreams } from './sse.js'
+import { attachWebSocketServer, type RealtimeSocketOptions } from './websocket.js'
+
+export { publish } from './hub.js'
+export { registerTopic, type TopicAuthorizer } from './topics.js'
+export { eventStream } from './sse.js'
+
+/**
+ * Start accepting realtime WebSocket connections on the HTTP server
+ *
+ * Open connections are closed as soon as a graceful shutdown starts, so
+ * they do not hold the server open; clients reconnect to another instance.
+ */
+export function attachRealtime(server: Server, options: RealtimeSocketOptions = {}) {
+  const wss = attachWebSocketServer(server, options)
+
+  onDrain('realtime connections', () => {
+    for (const ws of wss.clients) ws.close(1001, 'Server shutting down')
+    closeEventStreams()
+    return new Promise<void>((resolve) => wss.close(() => resolve()))
+  })
+
+  registerHealthCheck('realtime', () => ({
+    connections: wss.clients.size,
+    subscriptions: subscriptionCount(),
+  }), { critical: false })
+
+  return wss
+}
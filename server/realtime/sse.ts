@@ -0,0 +1,86 @@
+/**
+ * Realtime Server-Sent Events Transport
+ *
+ * Fallback for clients that cannot open a WebSocket (proxies stripping
+ * upgrades, restrictive networks). The topics are fixed for the lifetime
+ * of the stream; the client opens a new one when its subscriptions change.
+ *
+ * Every event's `data` is a `ServerMessage`, exactly as on the WebSocket.
+ */
+
+import type { Request, Response } from 'express'
+import { z } from 'zod'
+import { topicSchema, type ServerMessage } from '../../shared/realtime.js'
+import { asyncHandler } from '../middleware/async-handler.js'
+import { validate } from '../middleware/validate.js'
+import { subscribe } from './hub.js'
+import { authorizeTopic } from './topics.js'
+
+const MAX_TOPICS = 100
+// Comment lines keep proxies from closing an idle stream
+const KEEPALIVE_INTERVAL_MS = 25_000
+
+const streams = new Set<Response>()
+
+const querySchema = z.object({
+  topic: z
+    .union([topicSchema, z.array(topicSchema).min(1).max(MAX_TOPICS)])
+    .transform((topic) => [...new Set(Array.isArray(topic) ? topic : [topic])]),
+})
+
+async function openStream(req: Request, res: Response) {
+  const { topic: topics } = req.query as unknown as z.output<typeof querySchema>
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    // Disables response buffering in nginx
+    'X-Accel-Buffering': 'no',
+  })
+  res.flushHeaders()
+
+  const send = (message: ServerMessage) => {
+    res.write(`data: ${JSON.stringify(message)}\n\n`)
+  }
+
+  // Registered before authorizing, which may outlast the client
+  const unsubscribes: (() => void)[] = []
+  let closed = false
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS)
+  streams.add(res)
+
+  res.on('close', () => {
+    closed = true
+    clearInterval(keepalive)
+    streams.delete(res)
+    for (const unsubscribe of unsubscribes) unsubscribe()
+  })
+
+  // Refused topics get an error like on the WebSocket; the others still stream
+  for (const topic of topics) {
+    const allowed = await authorizeTopic(req.user, topic)
+    if (closed) return
+
+    if (allowed) {
+      unsubscribes.push(subscribe(topic, send))
+      send({ type: 'subscribed', topic })
+    } else {
+      send({ type: 'error', topic, message: 'You are not allowed to subscribe to this topic' })
+    }
+  }
+}
+
+/**
+ * Event stream route
+ *
+ * @route GET /api/realtime/events?topic=...&topic=...
+ * @throws {ValidationError} When no topic or an invalid one is given
+ */
+export const eventStream = [validate({ query: querySchema }), asyncHandler(openStream)]
+
+/**
+ * End every open event stream, e.g. on shutdown
+ */
+export function closeEventStreams() {
+  for (const res of streams) res.end()
+}
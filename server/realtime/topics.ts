@@ -0,0 +1,54 @@
+/**
+ * Topic Authorization
+ *
+ * Decides who may subscribe to a topic. Rules are registered per topic
+ * prefix and the longest matching prefix wins; topics without a rule are
+ * refused, so nothing is readable by accident.
+ *
+ * Built-in rules:
+ * - `public:*` - anyone, including signed-out visitors
+ * - `user:<id>` - only the user with that id
+ *
+ * @example
+ * ```ts
+ * import { registerTopic } from '../realtime/index.js'
+ *
+ * // project:<id> - members of the project
+ * registerTopic('project:', async (user, topic) =>
+ *   Boolean(user) && await isProjectMember(user!.id, Number(topic.slice('project:'.length)))
+ * )
+ * ```
+ */
+
+import type { PublicUser } from '../../shared/schema.js'
+
+/**
+ * Whether `user` (undefined when signed out) may receive messages on `topic`
+ */
+export type TopicAuthorizer = (user: PublicUser | undefined, topic: string) => boolean | Promise<boolean>
+
+const rules = new Map<string, TopicAuthorizer>()
+
+/**
+ * Register (or replace) the rule for every topic starting with `prefix`
+ */
+export function registerTopic(prefix: string, authorize: TopicAuthorizer) {
+  rules.set(prefix, authorize)
+}
+
+/**
+ * Check a subscription against the registered rules
+ */
+export async function authorizeTopic(user: PublicUser | undefined, topic: string) {
+  let match: string | undefined
+  for (const prefix of rules.keys()) {
+    if (topic.startsWith(prefix) && (match === undefined || prefix.length > match.length)) {
+      match = prefix
+    }
+  }
+
+  return match !== undefined && await rules.get(match)!(user, topic)
+}
+
+registerTopic('public:', () => true)
+registerTopic('user:', (user, topic) => user !== undefined && topic === `user:${user.id}`)
@@ -0,0 +1,178 @@
+/**
+ * Realtime WebSocket Transport
+ *
+ * Accepts WebSocket upgrades at `REALTIME_PATH` on the application's HTTP
+ * server. Other upgrade requests are left alone, so Vite's HMR socket keeps
+ * working on the same server in development.
+ *
+ * The session cookie is checked once, during the upgrade; every
+ * subscription is then authorized for that user. Sign-in state changes
+ * therefore need a new connection (the client reconnects on its own).
+ */
+
+import type { IncomingMessage, Server } from 'http'
+import type { Duplex } from 'stream'
+import { WebSocketServer, type RawData, type WebSocket } from 'ws'
+import { REALTIME_PATH, clientMessageSchema, type ServerMessage } from '../../shared/realtime.js'
+import type { PublicUser } from '../../shared/schema.js'
+import { SESSION_COOKIE, getSessionUser } from '../auth/sessions.js'
+import { config } from '../config.js'
+import { logger } from '../logger.js'
+import { subscribe } from './hub.js'
+import { authorizeTopic } from './topics.js'
+
+const log = logger.child({ source: 'realtime' })
+
+// Client messages are tiny; anything bigger is not ours
+const MAX_MESSAGE_BYTES = 16 * 1024
+const MAX_SUBSCRIPTIONS = 100
+// Connections that miss a ping are dropped, so half-open sockets do not pile up
+const HEARTBEAT_INTERVAL_MS = 30_000
+
+export interface RealtimeSocketOptions {
+  /** Leave unknown upgrades for other handlers (Vite HMR) instead of refusing them */
+  passThroughUpgrades?: boolean
+}
+
+function readCookie(req: IncomingMessage, name: string) {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=')
+    if (key === name) return decodeURIComponent(value.join('='))
+  }
+  return undefined
+}
+
+/**
+ * Browsers send cookies with cross-site WebSocket requests and CORS does not
+ * apply, so only same-origin pages and `CORS_ORIGINS` may connect.
+ */
+function isAllowedOrigin(req: IncomingMessage) {
+  const origin = req.headers.origin
+  // Non-browser clients do not send an Origin; they have no ambient cookies to abuse
+  if (!origin) return true
+
+  return URL.canParse(origin) && (new URL(origin).host === req.headers.host || config.cors.origins.includes(origin))
+}
+
+function reject(socket: Duplex, status: number, reason: string) {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`)
+}
+
+function handleConnection(socket: WebSocket, user: PublicUser | undefined) {
+  const subscriptions = new Map<string, () => void>()
+  const send = (message: ServerMessage) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message))
+  }
+
+  const onMessage = async (data: RawData) => {
+    let parsed
+    try {
+      parsed = clientMessageSchema.safeParse(JSON.parse(data.toString()))
+    } catch {
+      parsed = undefined
+    }
+
+    if (!parsed?.success) {
+      send({ type: 'error', message: 'Invalid message' })
+      return
+    }
+
+    const { type, topic } = parsed.data
+
+    if (type === 'unsubscribe') {
+      subscriptions.get(topic)?.()
+      subscriptions.delete(topic)
+      return
+    }
+
+    if (subscriptions.has(topic)) {
+      send({ type: 'subscribed', topic })
+      return
+    }
+    if (subscriptions.size >= MAX_SUBSCRIPTIONS) {
+      send({ type: 'error', topic, message: `At most ${MAX_SUBSCRIPTIONS} subscriptions per connection` })
+      return
+    }
+    if (!await authorizeTopic(user, topic)) {
+      send({ type: 'error', topic, message: 'You are not allowed to subscribe to this topic' })
+      return
+    }
+    // The socket may have closed while the authorization ran
+    if (socket.readyState !== socket.OPEN || subscriptions.has(topic)) return
+
+    subscriptions.set(topic, subscribe(topic, send))
+    send({ type: 'subscribed', topic })
+  }
+
+  socket.on('message', (data) => {
+    onMessage(data).catch((error: unknown) => {
+      log.error('❌ Failed to handle realtime message', { err: error })
+      send({ type: 'error', message: 'Internal error' })
+    })
+  })
+
+  socket.on('close', () => {
+    for (const unsubscribe of subscriptions.values()) unsubscribe()
+    subscriptions.clear()
+  })
+}
+
+/**
+ * Serve realtime WebSockets on an HTTP server
+ *
+ * @param server - HTTP server created by `createServer`
+ * @param options - Upgrade handling
+ * @returns The WebSocket server, closed by `closeRealtime`
+ */
+export function attachWebSocketServer(server: Server, { passThroughUpgrades = false }: RealtimeSocketOptions = {}) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES })
+  const alive = new WeakSet<WebSocket>()
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = (req.url ?? '').split('?')[0]
+
+    if (pathname !== REALTIME_PATH) {
+      // Vite's HMR listener handles its own upgrades; in production nobody else will
+      if (!passThroughUpgrades) reject(socket, 404, 'Not Found')
+      return
+    }
+
+    if (!isAllowedOrigin(req)) {
+      reject(socket, 403, 'Forbidden')
+      return
+    }
+
+    const token = readCookie(req, SESSION_COOKIE)
+    const authenticated = token ? getSessionUser(null, token) : Promise.resolve(undefined)
+
+    authenticated.then(
+      (user) => {
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          alive.add(ws)
+          ws.on('pong', () => alive.add(ws))
+          handleConnection(ws, user)
+        })
+      },
+      (error: unknown) => {
+        log.error('❌ Failed to authenticate realtime connection', { err: error })
+        reject(socket, 500, 'Internal Server Error')
+      }
+    )
+  })
+
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!alive.has(ws)) {
+        ws.terminate()
+        continue
+      }
+      alive.delete(ws)
+      ws.ping()
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+  heartbeat.unref()
+
+  wss.on('close', () => clearInterval(heartbeat))
+
+  return wss
+}
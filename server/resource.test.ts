@@ -0,0 +1,100 @@
+import { getTableColumns, sql } from 'drizzle-orm'
+import { PgDialect, boolean, integer, jsonb, pgTable, serial, text, timestamp, type PgColumn } from 'drizzle-orm/pg-core'
+import { describe, expect, it } from 'vitest'
+import { parseFilters, parseSort } from './resource.js'
+
+const posts = pgTable('posts', {
+  id: serial('id').primaryKey(),
+  title: text('title').notNull(),
+  views: integer('views').notNull(),
+  published: boolean('published').notNull(),
+  createdAt: timestamp('created_at').notNull(),
+  meta: jsonb('meta'),
+})
+
+const columns: Record<string, PgColumn> = getTableColumns(posts)
+const all = new Set(['id', 'title', 'views', 'published', 'createdAt', 'meta'])
+
+const dialect = new PgDialect()
+const render = (chunks: Parameters<typeof sql.join>[0]) => dialect.sqlToQuery(sql.join(chunks, sql`, `))
+
+describe('parseFilters', () => {
+  it('compares with `eq` when no operator is given', () => {
+    const { conditions, errors } = parseFilters(columns, all, { title: 'Hello' })
+
+    expect(errors).toEqual({})
+    expect(render(conditions)).toMatchObject({ sql: '"posts"."title" = $1', params: ['Hello'] })
+  })
+
+  it('converts values to the type of their column', () => {
+    const { conditions, errors } = parseFilters(columns, all, {
+      views: { gte: '10', lt: '100' },
+      published: 'true',
+      createdAt: { gt: '2024-01-01T00:00:00Z' },
+    })
+
+    expect(errors).toEqual({})
+    expect(render(conditions)).toMatchObject({
+      sql: '"posts"."views" >= $1, "posts"."views" < $2, "posts"."published" = $3, "posts"."created_at" > $4',
+      params: [10, 100, true, '2024-01-01T00:00:00.000Z'],
+    })
+  })
+
+  it('splits `in` lists and converts every item', () => {
+    const { conditions } = parseFilters(columns, all, { id: { in: '1,2,3' } })
+
+    expect(render(conditions)).toMatchObject({ sql: '"posts"."id" in ($1, $2, $3)', params: [1, 2, 3] })
+  })
+
+  it('matches `contains` case-insensitively with wildcards escaped', () => {
+    const { conditions } = parseFilters(columns, all, { title: { contains: '50%_off' } })
+
+    expect(render(conditions)).toMatchObject({ sql: '"posts"."title" ilike $1', params: ['%50\\%\\_off%'] })
+  })
+
+  it('rejects columns that are not filterable', () => {
+    const { conditions, errors } = parseFilters(columns, new Set(['title']), { views: '1' })
+
+    expect(conditions).toEqual([])
+    expect(errors).toEqual({ 'query.filter.views': { type: 'invalid_key', message: 'Cannot filter by views' } })
+  })
+
+  it.each([
+    ['a number', { views: 'many' }, 'views', 'eq'],
+    ['an empty number', { views: { gt: ' ' } }, 'views', 'gt'],
+    ['a boolean', { published: 'yes' }, 'published', 'eq'],
+    ['a date', { createdAt: { lt: 'yesterday' } }, 'createdAt', 'lt'],
+    ['an item of an `in` list', { id: { in: '1,two' } }, 'id', 'in'],
+    ['`contains` on a column that is not text', { views: { contains: '1' } }, 'views', 'contains'],
+  ])('rejects %s that does not fit the column', (_case, filter, name, operator) => {
+    const { conditions, errors } = parseFilters(columns, all, filter)
+
+    expect(conditions).toEqual([])
+    expect(errors).toEqual({
+      [`query.filter.${name}`]: { type: 'invalid_value', message: `Invalid ${operator} filter for ${name}` },
+    })
+  })
+
+  it('keeps the valid conditions next to the errors', () => {
+    const { conditions, errors } = parseFilters(columns, all, { title: 'Hello', views: 'many' })
+
+    expect(conditions).toHaveLength(1)
+    expect(Object.keys(errors)).toEqual(['query.filter.views'])
+  })
+})
+
+describe('parseSort', () => {
+  it('sorts ascending by default and descending with a `-` prefix', () => {
+    const { order, errors } = parseSort(columns, all, ['-createdAt', 'title'])
+
+    expect(errors).toEqual({})
+    expect(render(order).sql).toBe('"posts"."created_at" desc, "posts"."title" asc')
+  })
+
+  it('rejects columns that are not sortable', () => {
+    const { order, errors } = parseSort(columns, new Set(['title']), ['title', '-views', 'secret'])
+
+    expect(render(order).sql).toBe('"posts"."title" asc')
+    expect(errors).toEqual({ 'query.sort': { type: 'invalid_value', message: 'Cannot sort by views' } })
+  })
+})
@@ -0,0 +1,451 @@
+/**
+ * Resource Router Module
+ *
+ * Generates the list/get/create/update/delete routes every table needs, so a
+ * table from `shared/schema.ts` becomes a REST resource in one line. Request
+ * bodies are validated with the table's drizzle-zod insert schema; the list
+ * query format (paging, `sort`, `fields`, `filter[...]`) is described in
+ * `shared/resource.ts`.
+ *
+ * Generated routes, relative to the mount path:
+ * - GET    /     - One page of rows, `{ data, page, pageSize, total }`
+ * - GET    /:id  - A single row
+ * - POST   /     - Create a row (201)
+ * - PATCH  /:id  - Update some columns of a row
+ * - DELETE /:id  - Delete a row (204)
+ *
+ * Hooks run per operation: `before*` hooks authorize (by throwing, e.g. a
+ * `ForbiddenError`) and may rewrite the values being written, `after*` hooks
+ * perform side effects such as enqueueing jobs or publishing realtime events.
+ * `scope` restricts every operation to the rows the request may see.
+ *
+ * Every route requires a signed-in user unless the resource is `public`, and
+ * `id`, `createdAt` and `updatedAt` are never writable by clients.
+ *
+ * @example
+ * ```ts
+ * import { eq } from 'drizzle-orm'
+ * import { posts } from '../shared/schema.js'
+ *
+ * router.use('/posts', resource(posts, {
+ *   readOnly: ['userId'],
+ *   defaultSort: ['-createdAt'],
+ *   hooks: {
+ *     scope: (req) => eq(posts.userId, req.user!.id),
+ *     beforeCreate: (req, values) => ({ ...values, userId: req.user!.id }),
+ *     afterCreate: (req, post) => publish(`user:${req.user!.id}`, { type: 'post.created', post }),
+ *   },
+ * }))
+ * ```
+ */
+
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  getTableName,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  lt,
+  lte,
+  ne,
+  type InferInsertModel,
+  type InferSelectModel,
+  type SQL,
+} from 'drizzle-orm'
+import type { PgColumn } from 'drizzle-orm/pg-core'
+import { createInsertSchema } from 'drizzle-zod'
+import { Router, type Request, type RequestHandler } from 'express'
+import { z } from 'zod'
+import { FILTER_OPERATORS, type FilterOperator, type ResourcePage } from '../shared/resource.js'
+import { requireAuth } from './auth/middleware.js'
+import { db } from './db/index.js'
+import type { TableWithId } from './db/repository.js'
+import { NotFoundError, ValidationError } from './errors.js'
+import { asyncHandler } from './middleware/async-handler.js'
+import { apiNotFound } from './middleware/not-found.js'
+import { toFieldErrors, validate } from './middleware/validate.js'
+
+export type ResourceOperation = 'list' | 'get' | 'create' | 'update' | 'delete'
+
+type Awaitable<T> = T | Promise<T>
+
+/**
+ * Per-operation hooks of a resource
+ *
+ * Hooks receive the full row, hidden columns included. Values returned from
+ * `beforeCreate`/`beforeUpdate` replace the validated body.
+ */
+export interface ResourceHooks<TTable extends TableWithId> {
+  /** Condition added to every query, e.g. `eq(posts.userId, req.user!.id)`; rows outside it are reported as missing */
+  scope?: (req: Request) => SQL | undefined
+  beforeList?: (req: Request) => Awaitable<void>
+  beforeGet?: (req: Request, row: InferSelectModel<TTable>) => Awaitable<void>
+  beforeCreate?: (req: Request, values: InferInsertModel<TTable>) => Awaitable<InferInsertModel<TTable> | void>
+  afterCreate?: (req: Request, row: InferSelectModel<TTable>) => Awaitable<void>
+  beforeUpdate?: (
+    req: Request,
+    row: InferSelectModel<TTable>,
+    values: Partial<InferInsertModel<TTable>>
+  ) => Awaitable<Partial<InferInsertModel<TTable>> | void>
+  afterUpdate?: (req: Request, row: InferSelectModel<TTable>, previous: InferSelectModel<TTable>) => Awaitable<void>
+  beforeDelete?: (req: Request, row: InferSelectModel<TTable>) => Awaitable<void>
+  afterDelete?: (req: Request, row: InferSelectModel<TTable>) => Awaitable<void>
+}
+
+export interface ResourceOptions<TTable extends TableWithId> {
+  /** Operations to expose (default: all) */
+  operations?: ResourceOperation[]
+  /** Serve anonymous requests too; without it every operation runs `requireAuth` first (default: false) */
+  public?: boolean
+  /** Middleware run before every operation, after the authentication check */
+  middleware?: RequestHandler[]
+  /** Columns never sent to or accepted from clients, e.g. `passwordHash` */
+  hidden?: (keyof InferSelectModel<TTable> & string)[]
+  /** Columns clients may read but not write, in addition to `id`, `createdAt` and `updatedAt` */
+  readOnly?: (keyof InferSelectModel<TTable> & string)[]
+  /** Body schema of POST (default: the insert schema without hidden and read-only columns) */
+  createSchema?: z.ZodType<Partial<InferInsertModel<TTable>>>
+  /** Body schema of PATCH (default: `createSchema` with every column optional) */
+  updateSchema?: z.ZodType<Partial<InferInsertModel<TTable>>>
+  /** Columns accepted by `filter[...]` (default: every visible column) */
+  filterable?: (keyof InferSelectModel<TTable> & string)[]
+  /** Columns accepted by `sort` (default: every visible column) */
+  sortable?: (keyof InferSelectModel<TTable> & string)[]
+  /** Sort used without a `sort` parameter (default: `['id']`) */
+  defaultSort?: string[]
+  /** Page size without a `pageSize` parameter (default: 20) */
+  defaultPageSize?: number
+  /** Largest page size a client may request (default: 100) */
+  maxPageSize?: number
+  hooks?: ResourceHooks<TTable>
+}
+
+const ALL_OPERATIONS: ResourceOperation[] = ['list', 'get', 'create', 'update', 'delete']
+
+const DEFAULT_READ_ONLY = ['id', 'createdAt', 'updatedAt']
+
+// Columns are compared with these; `json` and array columns cannot be filtered
+const FILTERABLE_TYPES = new Set(['string', 'number', 'bigint', 'boolean', 'date'])
+
+const commaList = z
+  .string()
+  .optional()
+  .transform((value) => value?.split(',').map((item) => item.trim()).filter(Boolean) ?? [])
+
+const filterSchema = z.record(
+  z.string(),
+  z.union([z.string(), z.partialRecord(z.enum(FILTER_OPERATORS), z.string())])
+)
+
+/**
+ * Parse a query string value into the type of the column it is compared with
+ *
+ * @returns The converted value, or `undefined` when it does not fit the column
+ */
+function parseColumnValue(column: PgColumn, value: string): unknown {
+  switch (column.dataType) {
+    case 'number': {
+      const number = Number(value)
+      return value.trim() !== '' && Number.isFinite(number) ? number : undefined
+    }
+    case 'bigint':
+      return /^-?\d+$/.test(value) ? BigInt(value) : undefined
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : undefined
+    case 'date': {
+      const date = new Date(value)
+      return Number.isNaN(date.getTime()) ? undefined : date
+    }
+    default:
+      return value
+  }
+}
+
+function compare(column: PgColumn, operator: FilterOperator, value: unknown): SQL {
+  switch (operator) {
+    case 'eq': return eq(column, value)
+    case 'ne': return ne(column, value)
+    case 'gt': return gt(column, value)
+    case 'gte': return gte(column, value)
+    case 'lt': return lt(column, value)
+    case 'lte': return lte(column, value)
+    case 'in': return inArray(column, value as unknown[])
+    case 'contains': return ilike(column, `%${String(value).replace(/[\\%_]/g, '\\$&')}%`)
+  }
+}
+
+/**
+ * Turn `filter[...]` into conditions, rejecting unknown columns and values
+ * that do not fit their column
+ *
+ * @param columns - Columns of the table, by property name
+ * @param filterable - Names of the columns clients may filter by
+ * @param filter - Parsed `filter` query parameter
+ */
+export function parseFilters(
+  columns: Record<string, PgColumn>,
+  filterable: ReadonlySet<string>,
+  filter: z.output<typeof filterSchema>
+) {
+  const conditions: SQL[] = []
+  const errors: ValidationError['errors'] = {}
+
+  for (const [name, condition] of Object.entries(filter)) {
+    if (!filterable.has(name)) {
+      errors[`query.filter.${name}`] = { type: 'invalid_key', message: `Cannot filter by ${name}` }
+      continue
+    }
+
+    const column = columns[name]
+    const entries = typeof condition === 'string' ? [['eq', condition] as const] : Object.entries(condition)
+
+    for (const [operator, raw] of entries as [FilterOperator, string][]) {
+      const value = operator === 'in'
+        ? raw.split(',').map((item) => parseColumnValue(column, item))
+        : operator === 'contains' ? raw : parseColumnValue(column, raw)
+
+      const invalid = Array.isArray(value) ? value.includes(undefined) : value === undefined
+      if (invalid || (operator === 'contains' && column.dataType !== 'string')) {
+        errors[`query.filter.${name}`] ??= { type: 'invalid_value', message: `Invalid ${operator} filter for ${name}` }
+        continue
+      }
+
+      conditions.push(compare(column, operator, value))
+    }
+  }
+
+  return { conditions, errors }
+}
+
+/**
+ * Turn `sort` entries such as `-createdAt` into an order, rejecting columns
+ * that cannot be sorted by
+ *
+ * @param columns - Columns of the table, by property name
+ * @param sortable - Names of the columns clients may sort by
+ * @param sort - Parsed `sort` query parameter
+ */
+export function parseSort(columns: Record<string, PgColumn>, sortable: ReadonlySet<string>, sort: string[]) {
+  const errors: ValidationError['errors'] = {}
+  const order = sort.flatMap((entry) => {
+    const name = entry.replace(/^-/, '')
+
+    if (!sortable.has(name)) {
+      errors['query.sort'] ??= { type: 'invalid_value', message: `Cannot sort by ${name}` }
+      return []
+    }
+
+    return [entry.startsWith('-') ? desc(columns[name]) : asc(columns[name])]
+  })
+
+  return { order, errors }
+}
+
+/**
+ * Create a router with CRUD routes for a table
+ *
+ * Mount the router with `use`; it answers unknown paths and methods below its
+ * mount path itself (404/405).
+ *
+ * @param table - Drizzle table with an `id` primary key column
+ * @param options - Exposed operations, column visibility, paging and hooks
+ * @returns Router implementing the operations
+ */
+export function resource<TTable extends TableWithId>(table: TTable, options: ResourceOptions<TTable> = {}): Router {
+  type Row = InferSelectModel<TTable>
+  type Values = InferInsertModel<TTable>
+
+  const {
+    operations = ALL_OPERATIONS,
+    public: isPublic = false,
+    middleware = [],
+    hidden = [],
+    defaultSort = ['id'],
+    defaultPageSize = 20,
+    maxPageSize = 100,
+    hooks = {},
+  } = options
+
+  // Drizzle's builders cannot narrow generic tables, so queries are
+  // built against the erased table type and the rows cast back to `Row`.
+  const source = table as TableWithId
+  const tableName = getTableName(source)
+  const columns: Record<string, PgColumn> = getTableColumns(source)
+
+  const visible = Object.keys(columns).filter((name) => !(hidden as string[]).includes(name))
+  const readOnly = [...DEFAULT_READ_ONLY, ...(options.readOnly ?? [])].filter((name) => name in columns)
+  const filterable = new Set<string>(
+    options.filterable ?? visible.filter((name) => FILTERABLE_TYPES.has(columns[name].dataType))
+  )
+  const sortable = new Set<string>(options.sortable ?? visible)
+
+  // drizzle-zod's schema type for a generic table is too deep to infer
+  const insertSchema = createInsertSchema(source) as unknown as z.ZodObject
+  const unwritable = Object.fromEntries(
+    [...hidden, ...readOnly].filter((name) => name in insertSchema.shape).map((name) => [name, true as const])
+  )
+  const createSchema = options.createSchema ?? insertSchema.omit(unwritable).strict()
+  const updateSchema = options.updateSchema ?? insertSchema.omit(unwritable).partial().strict()
+
+  const listQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(maxPageSize).default(defaultPageSize),
+    sort: commaList,
+    fields: commaList,
+    filter: filterSchema.default({}),
+  })
+
+  const idColumn = columns.id
+  const paramsSchema = z.object({ id: z.string() })
+
+  const toVisible = (row: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(row).filter(([name]) => visible.includes(name))) as Partial<Row>
+
+  function parseFields(fields: string[]) {
+    const unknown = fields.filter((name) => !visible.includes(name))
+    const errors: ValidationError['errors'] = unknown.length > 0
+      ? { 'query.fields': { type: 'invalid_value', message: `Unknown fields: ${unknown.join(', ')}` } }
+      : {}
+
+    const selected = fields.length > 0 ? fields : visible
+    return { selection: Object.fromEntries(selected.map((name) => [name, columns[name]])), errors }
+  }
+
+  /**
+   * Load a row within the request's scope
+   *
+   * Rows outside the scope are reported as missing, not forbidden, so ids
+   * cannot be probed.
+   */
+  async function findRow(req: Request, rawId: string) {
+    const id = parseColumnValue(idColumn, rawId)
+    const rows = id === undefined
+      ? []
+      : await db.select().from(source).where(and(eq(idColumn, id), hooks.scope?.(req))).limit(1)
+
+    if (!rows[0]) throw new NotFoundError(`${tableName} ${rawId} does not exist`)
+    return rows[0] as Row
+  }
+
+  const router = Router()
+
+  if (!isPublic) {
+    router.use(requireAuth)
+  }
+  if (middleware.length > 0) {
+    router.use(...middleware)
+  }
+
+  if (operations.includes('list')) {
+    router.get('/', asyncHandler(async (req, res) => {
+      // Parsed here rather than with `validate` so column errors join the same response
+      const query = listQuerySchema.safeParse(req.query)
+      if (!query.success) {
+        throw new ValidationError('The request query is invalid', toFieldErrors(query.error.issues, 'query'))
+      }
+
+      const { page, pageSize, sort, fields, filter } = query.data
+      const filters = parseFilters(columns, filterable, filter)
+      const ordering = parseSort(columns, sortable, sort.length > 0 ? sort : defaultSort)
+      const projection = parseFields(fields)
+      const errors = { ...filters.errors, ...ordering.errors, ...projection.errors }
+
+      if (Object.keys(errors).length > 0) {
+        throw new ValidationError('The request query is invalid', errors)
+      }
+
+      await hooks.beforeList?.(req)
+
+      const where = and(hooks.scope?.(req), ...filters.conditions)
+      const [rows, [{ total }]] = await Promise.all([
+        db
+          .select(projection.selection)
+          .from(source)
+          .where(where)
+          // The id breaks ties so pages do not overlap
+          .orderBy(...ordering.order, asc(idColumn))
+          .limit(pageSize)
+          .offset((page - 1) * pageSize),
+        db.select({ total: count() }).from(source).where(where),
+      ])
+
+      const body: ResourcePage<Partial<Row>> = { data: rows as Partial<Row>[], page, pageSize, total }
+      res.json(body)
+    }))
+  }
+
+  if (operations.includes('get')) {
+    router.get('/:id', validate({ params: paramsSchema }), asyncHandler(async (req, res) => {
+      const row = await findRow(req, req.params.id)
+      await hooks.beforeGet?.(req, row)
+      res.json(toVisible(row))
+    }))
+  }
+
+  if (operations.includes('create')) {
+    router.post('/', validate({ body: createSchema }), asyncHandler(async (req, res) => {
+      let values = req.body as Values
+      values = (await hooks.beforeCreate?.(req, values)) ?? values
+
+      const [row] = (await db.insert(source).values(values).returning()) as Row[]
+      await hooks.afterCreate?.(req, row)
+
+      res.status(201).json(toVisible(row))
+    }))
+  }
+
+  if (operations.includes('update')) {
+    router.patch('/:id', validate({ params: paramsSchema, body: updateSchema }), asyncHandler(async (req, res) => {
+      const previous = await findRow(req, req.params.id)
+
+      let values = req.body as Partial<Values>
+      values = (await hooks.beforeUpdate?.(req, previous, values)) ?? values
+
+      if (Object.keys(values).length > 0 && 'updatedAt' in columns && !('updatedAt' in values)) {
+        values = { ...values, updatedAt: new Date() }
+      }
+
+      // An empty body is a no-op; drizzle refuses an update without columns
+      const [row] = Object.keys(values).length === 0
+        ? [previous]
+        : (await db
+          .update(source)
+          .set(values)
+          .where(and(eq(idColumn, previous.id), hooks.scope?.(req)))
+          .returning()) as Row[]
+
+      if (!row) throw new NotFoundError(`${tableName} ${req.params.id} does not exist`)
+      await hooks.afterUpdate?.(req, row, previous)
+
+      res.json(toVisible(row))
+    }))
+  }
+
+  if (operations.includes('delete')) {
+    router.delete('/:id', validate({ params: paramsSchema }), asyncHandler(async (req, res) => {
+      const row = await findRow(req, req.params.id)
+      await hooks.beforeDelete?.(req, row)
+
+      const deleted = await db
+        .delete(source)
+        .where(and(eq(idColumn, row.id), hooks.scope?.(req)))
+        .returning({ id: idColumn })
+
+      if (deleted.length === 0) throw new NotFoundError(`${tableName} ${req.params.id} does not exist`)
+      await hooks.afterDelete?.(req, row)
+
+      res.status(204).end()
+    }))
+  }
+
+  // 404/405 for the resource's paths; the parent router's handler cannot see nested routes
+  router.use(apiNotFound(router))
+
+  return router
+}
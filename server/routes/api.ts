@@ -4,11 +4,31 @@
  * This module defines all API endpoints for the application.
  * All routes defined here will be mounted under the `/api` prefix.
  * 
+ * Endpoints are declared in the shared contract (`shared/api.ts`) and
+ * implemented here; each handler returns the response body and is
+ * type-checked against the contract's response schema.
+ * 
  * Available endpoints:
- * - GET  /api/health - Health check and server status
+ * - GET  /api/health       - Health check and server status
+ * - GET  /api/health/live  - Liveness probe (process is up)
+ * - GET  /api/health/ready - Readiness probe (dependencies are healthy)
+ * - GET  /api/version      - Deployed build, for "new version available" prompts
+ * - /api/auth/*             - Authentication (see ./auth.ts)
+ * - /api/files/*            - File uploads and downloads (see ./files.ts)
+ * - GET  /api/realtime/events - Realtime event stream, the WebSocket fallback (see ../realtime/)
  */
 
-import { Router, Request, Response } from 'express'
+import { Router } from 'express'
+import { contract, type ApiContract } from '../../shared/api.js'
+import { implementContract, type EndpointHandler } from '../contract.js'
+import { config } from '../config.js'
+import { runHealthChecks } from '../health.js'
+import { getBuildInfo } from '../version.js'
+import { authHandlers } from './auth.js'
+import { downloadFile, fileHandlers } from './files.js'
+import { requireAuth } from '../auth/middleware.js'
+import { asyncHandler } from '../middleware/async-handler.js'
+import { eventStream } from '../realtime/index.js'
 
 const router = Router()
 
@@ -29,16 +49,101 @@ const router = Router()
  *   "env": "development"
  * }
  */
-router.get('/health', (_req: Request, res: Response) => {
+const health: EndpointHandler<ApiContract['health']> = () => {
   const healthData = {
-    status: 'ok',
+    status: 'ok' as const,
     timestamp: new Date().toISOString(),
-    env: process.env.NODE_ENV || 'development',
+    env: config.env,
     uptime: process.uptime(),
     memory: process.memoryUsage()
   }
   
-  res.json(healthData)
+  return healthData
+}
+
+/**
+ * Liveness Probe
+ *
+ * Answers as long as the process can handle requests. It deliberately does
+ * not check dependencies, so a database outage never gets the instance killed.
+ *
+ * @route GET /api/health/live
+ * @returns {Object} Liveness status
+ *
+ * @example
+ * GET /api/health/live
+ * Response: {
+ *   "status": "ok",
+ *   "uptime": 42.17
+ * }
+ */
+const healthLive: EndpointHandler<ApiContract['healthLive']> = () => {
+  return { status: 'ok', uptime: process.uptime() }
+}
+
+/**
+ * Readiness Probe
+ *
+ * Runs every check registered through `registerHealthCheck` and returns
+ * 503 when a critical one fails, so load balancers stop routing traffic
+ * to this instance.
+ *
+ * @route GET /api/health/ready
+ * @returns {Object} Aggregated status with per-check results
+ *
+ * @example
+ * GET /api/health/ready
+ * Response (503): {
+ *   "status": "fail",
+ *   "timestamp": "2023-12-07T10:30:00.000Z",
+ *   "checks": {
+ *     "database": { "status": "fail", "critical": true, "durationMs": 2001, "error": "Timed out after 2000ms" }
+ *   }
+ * }
+ */
+const healthReady: EndpointHandler<ApiContract['healthReady']> = async (_request, { res }) => {
+  const report = await runHealthChecks()
+
+  res
+    .status(report.status === 'fail' ? 503 : 200)
+    .set('Cache-Control', 'no-store')
+
+  return report
+}
+
+/**
+ * Version Endpoint
+ *
+ * Clients compare the version with the one embedded in their bundle and
+ * offer a reload when they differ.
+ *
+ * @route GET /api/version
+ * @returns {Object} Build version, commit and build time
+ *
+ * @example
+ * GET /api/version
+ * Response: {
+ *   "version": "a82a520-20231207T103000Z",
+ *   "commit": "a82a520",
+ *   "builtAt": "2023-12-07T10:30:00.000Z"
+ * }
+ */
+const version: EndpointHandler<ApiContract['version']> = (_request, { res }) => {
+  res.set('Cache-Control', 'no-store')
+  return getBuildInfo()
+}
+
+implementContract(router, contract, {
+  health,
+  healthLive,
+  healthReady,
+  version,
+  ...authHandlers,
+  ...fileHandlers,
 })
 
+// Streams file contents, so it is mounted outside the JSON contract
+router.get('/files/:id/content', requireAuth, asyncHandler(downloadFile))
+router.get('/realtime/events', ...eventStream)
+
 export default router
\ No newline at end of file
@@ -0,0 +1,116 @@
+/**
+ * Auth Routes Module
+ *
+ * Implements the `auth*` endpoints of the shared API contract. Sessions are
+ * stored in Postgres and carried by an httpOnly cookie.
+ *
+ * Available endpoints:
+ * - POST /api/auth/register - Create an account and sign in
+ * - POST /api/auth/login    - Sign in with email and password
+ * - POST /api/auth/logout   - End the current session
+ * - GET  /api/auth/me       - The signed-in user
+ */
+
+import { eq } from 'drizzle-orm'
+import type { ApiContract } from '../../shared/api.js'
+import { users, type PublicUser } from '../../shared/schema.js'
+import type { ContractHandlers } from '../contract.js'
+import { db, isUniqueViolation } from '../db/index.js'
+import { ConflictError, UnauthorizedError } from '../errors.js'
+import { hashPassword, verifyPassword } from '../auth/password.js'
+import { SESSION_COOKIE, createSession, destroySession, toPublicUser } from '../auth/sessions.js'
+import { requireAuth } from '../auth/middleware.js'
+import { authRateLimit, loginIpRateLimit, loginRateLimit } from '../rate-limit/policies.js'
+
+type AuthHandlers = Pick<ContractHandlers<ApiContract>, 'authRegister' | 'authLogin' | 'authLogout' | 'authMe'>
+
+// Verified against unknown emails so both failure paths take the same time
+const dummyPasswordHash = hashPassword('make.inc placeholder password')
+
+export const authHandlers: AuthHandlers = {
+  /**
+   * Register Endpoint
+   *
+   * Creates an account and immediately signs the new user in.
+   *
+   * @route POST /api/auth/register
+   * @returns {PublicUser} The created user (201)
+   * @throws {ConflictError} When the email is already registered
+   * @throws {TooManyRequestsError} After too many attempts from one IP address
+   */
+  authRegister: {
+    middleware: [authRateLimit],
+    handler: async ({ body }, { res }) => {
+      const { password, ...profile } = body
+
+      try {
+        const [user] = await db
+          .insert(users)
+          .values({ ...profile, passwordHash: await hashPassword(password) })
+          .returning()
+
+        await createSession(res, user.id)
+        res.status(201)
+
+        return toPublicUser(user)
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new ConflictError('An account with this email already exists')
+        }
+        throw error
+      }
+    },
+  },
+
+  /**
+   * Login Endpoint
+   *
+   * @route POST /api/auth/login
+   * @returns {PublicUser} The signed-in user
+   * @throws {UnauthorizedError} When the email or password is wrong
+   * @throws {TooManyRequestsError} After too many attempts for one email, or from one IP address
+   */
+  authLogin: {
+    middleware: [loginIpRateLimit, loginRateLimit],
+    handler: async ({ body }, { req, res }) => {
+      const [user] = await db.select().from(users).where(eq(users.email, body.email)).limit(1)
+      const valid = await verifyPassword(body.password, user?.passwordHash ?? await dummyPasswordHash)
+
+      if (!user || !valid) {
+        throw new UnauthorizedError('Invalid email or password')
+      }
+
+      await createSession(res, user.id)
+      await loginRateLimit.reset(req)
+
+      return toPublicUser(user)
+    },
+  },
+
+  /**
+   * Logout Endpoint
+   *
+   * Always succeeds, even without a session, so clients can call it blindly.
+   *
+   * @route POST /api/auth/logout
+   * @returns 204 No Content
+   */
+  authLogout: async (_request, { req, res }) => {
+    const token: unknown = req.cookies?.[SESSION_COOKIE]
+
+    await destroySession(res, typeof token === 'string' ? token : undefined)
+    res.status(204)
+  },
+
+  /**
+   * Current User Endpoint
+   *
+   * @route GET /api/auth/me
+   * @returns {PublicUser} The signed-in user
+   * @throws {UnauthorizedError} When there is no valid session
+   */
+  authMe: {
+    middleware: [requireAuth],
+    handler: (_request, { req }) => req.user as PublicUser,
+  },
+}
@@ -0,0 +1,161 @@
+/**
+ * File Routes Module
+ *
+ * Implements the file endpoints of the shared API contract plus the download
+ * route, which streams file contents and therefore is not a JSON endpoint.
+ * Contents are kept by the storage adapter (`../storage/`), metadata in the
+ * `files` table. Every route requires a signed-in user and only sees that
+ * user's files.
+ *
+ * Available endpoints:
+ * - GET    /api/files             - The user's files, newest first
+ * - POST   /api/files             - Upload files (multipart/form-data)
+ * - GET    /api/files/:id/content - Download a file
+ * - DELETE /api/files/:id         - Delete a file
+ */
+
+import { and, desc, eq } from 'drizzle-orm'
+import type { Request, Response } from 'express'
+import { pipeline } from 'stream/promises'
+import type { ApiContract } from '../../shared/api.js'
+import { files, type PublicFile, type StoredFile } from '../../shared/schema.js'
+import type { ContractHandlers } from '../contract.js'
+import { db } from '../db/index.js'
+import { NotFoundError } from '../errors.js'
+import { requireAuth } from '../auth/middleware.js'
+import { getStorage, receiveFiles } from '../storage/index.js'
+
+type FileHandlers = Pick<ContractHandlers<ApiContract>, 'listFiles' | 'uploadFiles' | 'deleteFile'>
+
+// Only these are displayed in the browser; everything else is downloaded
+const INLINE_TYPES = /^(image\/(png|jpeg|gif|webp|avif)|application\/pdf|text\/plain)$/
+
+/**
+ * Strip the storage location before sending a file to the client
+ */
+export function toPublicFile({ storageKey: _storageKey, ...file }: StoredFile): PublicFile {
+  return file
+}
+
+async function findOwnFile(req: Request, id: number) {
+  const [file] = await db
+    .select()
+    .from(files)
+    .where(and(eq(files.id, id), eq(files.userId, req.user!.id)))
+
+  // Other users' files are reported as missing, not forbidden, so ids cannot be probed
+  if (!file) throw new NotFoundError(`File ${id} does not exist`)
+  return file
+}
+
+export const fileHandlers: FileHandlers = {
+  /**
+   * List Files Endpoint
+   *
+   * @route GET /api/files
+   * @returns {PublicFile[]} The signed-in user's files, newest first
+   */
+  listFiles: {
+    middleware: [requireAuth],
+    handler: async (_request, { req }) => {
+      const rows = await db
+        .select()
+        .from(files)
+        .where(eq(files.userId, req.user!.id))
+        .orderBy(desc(files.createdAt), desc(files.id))
+
+      return rows.map(toPublicFile)
+    },
+  },
+
+  /**
+   * Upload Endpoint
+   *
+   * Streams every file of the multipart body into storage, then records
+   * them. Limits come from the `UPLOAD_*` settings.
+   *
+   * @route POST /api/files
+   * @returns {PublicFile[]} The stored files (201)
+   * @throws {PayloadTooLargeError} When a file or the number of files exceeds the limits
+   * @throws {UnsupportedMediaTypeError} When a file type is not allowed
+   */
+  uploadFiles: {
+    middleware: [requireAuth],
+    handler: async (_request, { req, res }) => {
+      const storage = getStorage()
+      const received = await receiveFiles(req, storage)
+
+      try {
+        const rows = await db
+          .insert(files)
+          .values(received.map(({ storageKey, name, contentType, size }) => ({
+            userId: req.user!.id,
+            storageKey,
+            name,
+            contentType,
+            size,
+          })))
+          .returning()
+
+        res.status(201)
+        return rows.map(toPublicFile)
+      } catch (error) {
+        await Promise.allSettled(received.map((file) => storage.delete(file.storageKey)))
+        throw error
+      }
+    },
+  },
+
+  /**
+   * Delete File Endpoint
+   *
+   * @route DELETE /api/files/:id
+   * @returns 204 No Content
+   * @throws {NotFoundError} When the file does not exist or belongs to another user
+   */
+  deleteFile: {
+    middleware: [requireAuth],
+    handler: async ({ params }, { req, res }) => {
+      const file = await findOwnFile(req, params.id)
+
+      await db.delete(files).where(eq(files.id, file.id))
+      await getStorage().delete(file.storageKey)
+
+      res.status(204)
+    },
+  },
+}
+
+/**
+ * Download Route
+ *
+ * Streams the file from storage. Files are sandboxed by their own CSP so an
+ * uploaded document can never run scripts on this origin.
+ *
+ * @route GET /api/files/:id/content
+ * @throws {NotFoundError} When the file does not exist or belongs to another user
+ */
+export async function downloadFile(req: Request, res: Response) {
+  const id = Number(req.params.id)
+  if (!Number.isInteger(id) || id <= 0) throw new NotFoundError(`File ${req.params.id} does not exist`)
+
+  const file = await findOwnFile(req, id)
+  const body = await getStorage().get(file.storageKey)
+
+  // `attachment()` encodes the file name safely (and guesses a type, replaced below)
+  res.attachment(file.name)
+  if (INLINE_TYPES.test(file.contentType)) {
+    res.set('Content-Disposition', res.get('Content-Disposition')!.replace(/^attachment/, 'inline'))
+  }
+
+  res
+    .status(200)
+    .type(file.contentType)
+    .set({
+      'Content-Length': String(file.size),
+      'Cache-Control': 'private, no-cache',
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    })
+
+  await pipeline(body, res)
+}
@@ -6,10 +6,19 @@
  * 
  * To add new routes, simply import and register them in the registerRoutes function.
  * This approach keeps app.ts clean and makes route management easier.
+ *
+ * Route handlers reach the database by importing `db` from `../db/index.js`
+ * or by creating a repository with `createRepository` from `../db/repository.js`.
+ * Tables that only need plain CRUD endpoints are exposed with `resource()`
+ * from `../resource.js`, mounted in `./resources.ts`.
  */
 
 import { Express } from 'express'
 import apiRoutes from './api.js'
+import resourceRoutes from './resources.js'
+import { authenticate } from '../auth/middleware.js'
+import { apiRateLimit } from '../rate-limit/policies.js'
+import { apiNotFound } from '../middleware/not-found.js'
 
 /**
  * Register all API routes
@@ -20,8 +29,12 @@ import apiRoutes from './api.js'
  * @param app - Express application instance
  */
 export async function registerRoutes(app: Express) {
-  app.use('/api', apiRoutes)
+  // Resolve the session cookie to `req.user` before any API handler runs,
+  // so the baseline rate limit counts signed-in users by account
+  app.use('/api', authenticate, apiRateLimit, apiRoutes, resourceRoutes)
+
+  // Unknown API paths get a JSON 404/405 instead of falling through to the SPA
+  app.use('/api', apiNotFound(apiRoutes))
   
   // Add more route registrations here as needed
-  // app.use('/auth', authRoutes)
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+/**
+ * Resource Routes Module
+ *
+ * CRUD endpoints generated from tables with `resource()` (see
+ * `../resource.ts`), mounted under the `/api` prefix next to the contract
+ * routes of `./api.ts`. Register a table by mounting its resource here.
+ *
+ * @example
+ * ```ts
+ * import { posts } from '../../shared/schema.js'
+ *
+ * // GET/POST /api/posts, GET/PATCH/DELETE /api/posts/:id, signed-in users only
+ * router.use('/posts', resource(posts))
+ * ```
+ */
+
+import { Router } from 'express'
+
+const router = Router()
+
+export default router
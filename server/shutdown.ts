@@ -0,0 +1,174 @@
+/**
+ * Graceful Shutdown Coordinator
+ *
+ * This module stops the server cleanly on SIGTERM/SIGINT so deploys do not cut
+ * off in-flight requests or leave resources open.
+ *
+ * Shutdown sequence:
+ * 1. Stop accepting new connections and fail the readiness check
+ * 2. Run drain hooks that end long-lived connections (WebSockets, event streams, Vite HMR)
+ * 3. Let in-flight requests finish, closing keep-alive connections as they go idle
+ * 4. Force-close remaining connections once the deadline passes and move on
+ * 5. Run registered cleanup hooks (database pool, workers, ...) in reverse order
+ *
+ * A second signal during shutdown exits immediately.
+ *
+ * @example
+ * ```ts
+ * import { onShutdown } from '../shutdown.js'
+ *
+ * const queue = await startQueue()
+ * onShutdown('queue', () => queue.stop())
+ * ```
+ */
+
+import type { NextFunction, Request, Response } from 'express'
+import type { Server } from 'http'
+import { registerHealthCheck } from './health.js'
+import { logger } from './logger.js'
+
+export type ShutdownHook = () => void | Promise<void>
+
+export interface GracefulShutdownOptions {
+  /** Milliseconds to wait for in-flight requests before forcing connections closed (default: 10000) */
+  timeout?: number
+  /** Signals that trigger a shutdown (default: SIGTERM and SIGINT) */
+  signals?: NodeJS.Signals[]
+}
+
+const log = logger.child({ source: 'shutdown' })
+
+const hooks: { name: string; hook: ShutdownHook }[] = []
+const drainHooks: { name: string; hook: ShutdownHook }[] = []
+
+let shuttingDown = false
+
+/**
+ * Register a cleanup hook
+ *
+ * Hooks run after the HTTP server has drained, in reverse order of
+ * registration, so resources are released before the things they depend on.
+ *
+ * @param name - Name used in shutdown logs
+ * @param hook - Cleanup function
+ */
+export function onShutdown(name: string, hook: ShutdownHook) {
+  hooks.push({ name, hook })
+}
+
+/**
+ * Register a hook that runs as soon as shutdown starts
+ *
+ * For connections that never finish on their own, such as WebSockets and
+ * event streams: without closing them, the server only stops at the drain
+ * deadline, and upgraded sockets stay open until the process exits.
+ *
+ * @param name - Name used in shutdown logs
+ * @param hook - Function closing the connections
+ */
+export function onDrain(name: string, hook: ShutdownHook) {
+  drainHooks.push({ name, hook })
+}
+
+/**
+ * Whether a shutdown is in progress
+ */
+export function isShuttingDown() {
+  return shuttingDown
+}
+
+/**
+ * Ask clients to close keep-alive connections once the server is draining
+ *
+ * Without this, a client reusing its connection keeps the server open
+ * until the shutdown deadline.
+ */
+export function connectionDraining(_req: Request, res: Response, next: NextFunction) {
+  if (shuttingDown) {
+    res.setHeader('Connection', 'close')
+  }
+  next()
+}
+
+async function runHooks(registered: typeof hooks) {
+  let failed = false
+
+  for (const { name, hook } of [...registered].reverse()) {
+    try {
+      await hook()
+      log.info(`✅ Closed ${name}`)
+    } catch (error) {
+      failed = true
+      log.error(`❌ Failed to close ${name}`, { err: error })
+    }
+  }
+
+  return !failed
+}
+
+function drain(server: Server, timeout: number) {
+  return new Promise<boolean>((resolve) => {
+    let forced = false
+
+    // Connections that are idle right now can go immediately; busy ones
+    // get `Connection: close` on their response and close after it.
+    const idleSweep = setInterval(() => server.closeIdleConnections(), 250)
+
+    const deadline = setTimeout(() => {
+      forced = true
+      log.warn(`⏱️ Requests still in flight after ${timeout}ms, closing connections`)
+      server.closeAllConnections()
+      // Upgraded sockets are not among the server's connections, so `close`
+      // may never call back; the process exit ends them
+      clearInterval(idleSweep)
+      resolve(false)
+    }, timeout)
+
+    server.close(() => {
+      clearInterval(idleSweep)
+      clearTimeout(deadline)
+      resolve(!forced)
+    })
+
+    server.closeIdleConnections()
+  })
+}
+
+/**
+ * Install signal handlers that shut the server down gracefully
+ *
+ * @param server - HTTP server returned by `createServer`, or `undefined` in
+ *   processes without one (such as the job worker), which only run the hooks
+ * @param options - Drain deadline and signals to listen for
+ */
+export function setupGracefulShutdown(server: Server | undefined, options: GracefulShutdownOptions = {}) {
+  const timeout = options.timeout ?? 10_000
+  const signals = options.signals ?? ['SIGTERM', 'SIGINT']
+
+  registerHealthCheck('shutdown', () => {
+    if (shuttingDown) {
+      throw new Error('Server is shutting down')
+    }
+  })
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      log.warn(`⚠️ Received ${signal} again, exiting immediately`)
+      process.exit(1)
+    }
+
+    shuttingDown = true
+    log.info(`🛑 Received ${signal}, shutting down gracefully`)
+
+    const closedStreams = await runHooks(drainHooks)
+    const drained = server ? await drain(server, timeout) : true
+    const cleanedUp = await runHooks(hooks)
+
+    log.info('👋 Shutdown complete')
+    process.exit(closedStreams && drained && cleanedUp ? 0 : 1)
+  }
+
+  for (const signal of signals) {
+    process.on(signal, (received) => void shutdown(received))
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Server-Side Rendering Module
+ *
+ * Streams server-rendered pages when SSR is enabled (`SSR=true`). The page is
+ * the client `index.html` template with the app's markup streamed into the
+ * `<!--ssr-outlet-->` placeholder inside `<div id="root">`; the browser then
+ * hydrates it (`client/main.tsx`).
+ *
+ * Features:
+ * - Streaming: the shell is sent as soon as it is ready, Suspense boundaries follow
+ * - Crawlers and link preview bots get the complete page in one response
+ * - Status codes: pages set theirs with `useStatusCode` (e.g. 404)
+ * - Head: the title, description, canonical URL and Open Graph tags pages set
+ *   with `useDocumentHead` are written into `<head>`
+ * - Fallback: if the shell fails to render, the client-only page is served
+ * - Prerendering: `renderToHtml` renders whole pages for `server/prerender.ts`
+ *
+ * The render function comes from `client/entry-server.tsx`, loaded through
+ * `vite.ssrLoadModule` in development and from `dist/ssr/` in production
+ * (see `server/vite.ts`).
+ */
+
+import type { Request, Response } from 'express'
+import type { PipeableStream, RenderToPipeableStreamOptions } from 'react-dom/server'
+import { Transform, Writable } from 'stream'
+
+/** Placeholder in `client/index.html` replaced by the rendered app */
+export const SSR_OUTLET = '<!--ssr-outlet-->'
+
+/** Copy of the built `index.html` kept by `server/prerender.ts`, since prerendering `/` overwrites it */
+export const SHELL_FILE = 'shell.html'
+
+/**
+ * Document head resolved by the app, mirrors `ResolvedHead` in `client/lib/document-head.tsx`
+ */
+export interface RenderedHead {
+  title: string
+  description: string
+  canonical?: string
+  openGraph: Record<string, string>
+}
+
+/**
+ * Response details collected during a render, mirrors `ServerContextValue`
+ * in `client/lib/server-context.tsx`
+ */
+export interface RenderContext {
+  statusCode: number
+  head?: RenderedHead
+}
+
+/**
+ * Route listed in `client/constants/prerender.ts`, mirrors `PrerenderRoute` there
+ */
+export interface PrerenderRoute {
+  path: string
+}
+
+/**
+ * Shape of `client/entry-server.tsx`
+ */
+export interface SsrEntry {
+  render(url: string, context: RenderContext, options: RenderToPipeableStreamOptions): PipeableStream
+  prerenderRoutes: PrerenderRoute[]
+}
+
+// Marks the tags the client replaces on navigation (`HEAD_ATTRIBUTE` in document-head.tsx)
+const HEAD_ATTRIBUTE = 'data-document-head'
+
+// Rendering that has not finished by then is left to the client
+const ABORT_DELAY_MS = 10_000
+
+// Clients that do not run JavaScript and need the whole page at once
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|whatsapp|telegram|discord|slack|linkedin|twitter/i
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Write a rendered head into the `<head>` of a page
+ *
+ * Replaces the template's title and description and adds the canonical
+ * link and Open Graph tags before `</head>`.
+ *
+ * @param html - Page, or the part of it up to the app's markup
+ * @param head - Head collected while rendering; the page is returned as is without one
+ */
+export function injectHead(html: string, head: RenderedHead | undefined) {
+  if (!head) return html
+
+  const tags = [
+    head.canonical && `<link rel="canonical" href="${escapeHtml(head.canonical)}" ${HEAD_ATTRIBUTE}>`,
+    ...Object.entries(head.openGraph).map(
+      ([property, content]) => `<meta property="${escapeHtml(property)}" content="${escapeHtml(content)}" ${HEAD_ATTRIBUTE}>`
+    ),
+  ].filter(Boolean)
+
+  return html
+    .replace(/<title>[\s\S]*?<\/title>/, () => `<title>${escapeHtml(head.title)}</title>`)
+    .replace(/<meta name="description" content="[^"]*">/, () => `<meta name="description" content="${escapeHtml(head.description)}">`)
+    .replace('</head>', () => `${tags.map((tag) => `  ${tag}\n`).join('')}</head>`)
+}
+
+/**
+ * Render a page and stream it to the response
+ *
+ * @param req - Incoming request; its URL is rendered
+ * @param res - Response, must not have been written to yet
+ * @param entry - Server entry module
+ * @param template - Transformed `index.html`, with the CSP nonce already injected
+ */
+export function renderPage(req: Request, res: Response, entry: SsrEntry, template: string) {
+  const [head, tail] = template.split(SSR_OUTLET)
+  const context: RenderContext = { statusCode: 200 }
+  const waitForAll = BOT_USER_AGENT.test(req.get('User-Agent') ?? '')
+
+  const send = () => {
+    res.status(context.statusCode).set({ 'Content-Type': 'text/html', 'Cache-Control': 'no-cache' })
+    res.write(injectHead(head, context.head))
+
+    // Append the rest of the template once React has written its last chunk
+    const body = new Transform({
+      transform: (chunk, _encoding, callback) => callback(null, chunk),
+      flush: (callback) => callback(null, tail),
+    })
+
+    body.pipe(res)
+    stream.pipe(body)
+  }
+
+  const stream = entry.render(req.originalUrl, context, {
+    nonce: res.locals.cspNonce,
+    onShellReady() {
+      if (!waitForAll) send()
+    },
+    onAllReady() {
+      if (waitForAll) send()
+    },
+    onShellError(error) {
+      req.log.error('❌ Server rendering failed, serving the client-only page', { err: error })
+      res.status(200).set({ 'Content-Type': 'text/html', 'Cache-Control': 'no-cache' }).end(head + tail)
+    },
+    onError(error) {
+      // Failed Suspense boundaries are retried in the browser
+      req.log.warn('⚠️ Error while server rendering', { err: error })
+    },
+  })
+
+  const timeout = setTimeout(() => stream.abort(), ABORT_DELAY_MS)
+  res.on('close', () => {
+    clearTimeout(timeout)
+    stream.abort()
+  })
+}
+
+/**
+ * Render a page completely, for prerendering at build time
+ *
+ * Waits for every Suspense boundary, so the markup needs no inline scripts.
+ * Rejects on any rendering error; a broken page must not be deployed.
+ *
+ * @param entry - Server entry module
+ * @param url - Path to render
+ * @param template - Built `index.html`
+ * @returns The page and the status the app set while rendering
+ */
+export function renderToHtml(entry: SsrEntry, url: string, template: string) {
+  const [head, tail] = template.split(SSR_OUTLET)
+  const context: RenderContext = { statusCode: 200 }
+
+  return new Promise<{ html: string; statusCode: number }>((resolve, reject) => {
+    const chunks: Buffer[] = []
+
+    const stream = entry.render(url, context, {
+      onAllReady() {
+        stream.pipe(new Writable({
+          write: (chunk, _encoding, callback) => {
+            chunks.push(Buffer.from(chunk as Uint8Array))
+            callback()
+          },
+          final: (callback) => {
+            const markup = Buffer.concat(chunks).toString('utf-8')
+            resolve({ html: injectHead(head, context.head) + markup + tail, statusCode: context.statusCode })
+            callback()
+          },
+        }))
+      },
+      onShellError: reject,
+      onError: reject,
+    })
+  })
+}
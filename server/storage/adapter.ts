@@ -0,0 +1,27 @@
+/**
+ * Storage Adapter
+ *
+ * Uploaded file contents are written through a `StorageAdapter`, so routes
+ * never depend on where the bytes end up. `LocalStorage` writes to a
+ * directory on disk, `S3Storage` to any S3-compatible bucket; the adapter
+ * is selected with `STORAGE_DRIVER` (see `./index.ts`).
+ *
+ * Keys are generated by the server and may contain `/` to group objects.
+ */
+
+import type { Readable } from 'stream'
+
+export interface PutOptions {
+  contentType: string
+}
+
+export interface StorageAdapter {
+  /** Short name used in logs, e.g. `local` */
+  readonly name: string
+  /** Stream `body` to `key`, replacing any existing object; resolves once it is fully written */
+  put(key: string, body: Readable, options: PutOptions): Promise<void>
+  /** Stream the object stored at `key`; throws `NotFoundError` when it does not exist */
+  get(key: string): Promise<Readable>
+  /** Remove the object stored at `key`; missing objects are ignored */
+  delete(key: string): Promise<void>
+}
@@ -0,0 +1,46 @@
+/**
+ * Storage Module
+ *
+ * Provides the storage adapter selected by `STORAGE_DRIVER` and the
+ * multipart upload parser that streams files into it.
+ *
+ * @example
+ * ```ts
+ * import { getStorage } from '../storage/index.js'
+ *
+ * const body = await getStorage().get(file.storageKey)
+ * ```
+ */
+
+import { config } from '../config.js'
+import { onShutdown } from '../shutdown.js'
+import type { StorageAdapter } from './adapter.js'
+import { LocalStorage } from './local.js'
+import { S3Storage } from './s3.js'
+
+export type { PutOptions, StorageAdapter } from './adapter.js'
+export { LocalStorage } from './local.js'
+export { S3Storage, type S3StorageOptions } from './s3.js'
+export { receiveFiles, type ReceivedFile, type UploadLimits } from './uploads.js'
+
+let storage: StorageAdapter | undefined
+
+function createStorage(): StorageAdapter {
+  if (config.storage.driver === 's3') {
+    const { bucket, ...options } = config.storage.s3
+    // `config` rejects STORAGE_DRIVER=s3 without S3_BUCKET at boot
+    const s3 = new S3Storage({ bucket: bucket!, ...options })
+    onShutdown('s3 storage', () => s3.close())
+    return s3
+  }
+
+  return new LocalStorage(config.storage.localDir)
+}
+
+/**
+ * The adapter selected by `STORAGE_DRIVER`, created on first use
+ */
+export function getStorage() {
+  storage ??= createStorage()
+  return storage
+}
@@ -0,0 +1,69 @@
+/**
+ * Local Disk Storage
+ *
+ * Stores objects as files below a root directory. Suitable for development
+ * and single-instance deployments with a persistent volume.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { nanoid } from 'nanoid'
+import { NotFoundError } from '../errors.js'
+import type { PutOptions, StorageAdapter } from './adapter.js'
+
+export class LocalStorage implements StorageAdapter {
+  readonly name = 'local'
+  private readonly root: string
+
+  /**
+   * @param root - Directory objects are stored in, created on first write
+   */
+  constructor(root: string) {
+    this.root = path.resolve(root)
+  }
+
+  async put(key: string, body: Readable, _options: PutOptions) {
+    const filePath = this.resolve(key)
+    // Written under a temporary name so a failed upload never leaves a partial file behind
+    const tempPath = `${filePath}.${nanoid(8)}.tmp`
+
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+
+    try {
+      await pipeline(body, fs.createWriteStream(tempPath))
+      await fs.promises.rename(tempPath, filePath)
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true })
+      throw error
+    }
+  }
+
+  async get(key: string) {
+    const filePath = this.resolve(key)
+
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK)
+    } catch {
+      throw new NotFoundError(`Object ${key} does not exist`)
+    }
+
+    return fs.createReadStream(filePath)
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.resolve(key), { force: true })
+  }
+
+  // Keys come from the server, but never let one escape the root directory
+  private resolve(key: string) {
+    const filePath = path.resolve(this.root, key)
+
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+
+    return filePath
+  }
+}
@@ -0,0 +1,111 @@
+import express from 'express'
+import fs from 'fs'
+import type { AddressInfo } from 'net'
+import net from 'net'
+import os from 'os'
+import path from 'path'
+import type { Server } from 'http'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { PayloadTooLargeError, UnsupportedMediaTypeError } from '../errors.js'
+import { LocalStorage } from './local.js'
+import { receiveFiles, type ReceivedFile, type UploadLimits } from './uploads.js'
+
+const BOUNDARY = 'test-boundary'
+
+function part(name: string, filename: string, contentType: string, content: string) {
+  return `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${name}"; filename="${filename}"\r\n`
+    + `Content-Type: ${contentType}\r\n\r\n${content}\r\n`
+}
+
+describe('receiveFiles', () => {
+  let root: string
+  let server: Server
+  let outcome: Promise<ReceivedFile[]>
+
+  // Every request's outcome is captured instead of answered, so tests can await it
+  const listen = (limits: Partial<UploadLimits> = {}) => new Promise<number>((resolve) => {
+    const app = express()
+    app.post('/', (req, res) => {
+      outcome = receiveFiles(req, new LocalStorage(root), { allowedTypes: ['text/plain'], ...limits })
+      outcome.then(() => res.end(), () => res.end())
+    })
+    server = app.listen(0, () => resolve((server.address() as AddressInfo).port))
+  })
+
+  // Sends `body` on a raw socket, declaring `length` bytes
+  const send = (port: number, body: string, length = Buffer.byteLength(body)) => {
+    const socket = net.connect(port, '127.0.0.1')
+    socket.write(
+      `POST / HTTP/1.1\r\nHost: localhost\r\nContent-Type: multipart/form-data; boundary=${BOUNDARY}\r\n`
+      + `Content-Length: ${length}\r\n\r\n${body}`
+    )
+    return socket
+  }
+
+  const storedFiles = () => fs.readdirSync(root, { recursive: true, withFileTypes: true })
+    .filter((entry) => entry.isFile())
+    .map((entry) => entry.name)
+
+  // Waits until the request handler has run
+  const received = async () => {
+    while (!outcome) await new Promise((resolve) => setTimeout(resolve, 5))
+    return outcome
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-test-'))
+    outcome = undefined as unknown as Promise<ReceivedFile[]>
+  })
+
+  afterEach(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('stores every file of the request', async () => {
+    const port = await listen()
+    const socket = send(port, part('file', 'a.txt', 'text/plain', 'hello') + part('file', 'b.txt', 'text/plain', 'world!') + `--${BOUNDARY}--\r\n`)
+
+    const files = await received()
+    socket.destroy()
+
+    expect(files.map(({ name, size, contentType }) => ({ name, size, contentType }))).toEqual([
+      { name: 'a.txt', size: 5, contentType: 'text/plain' },
+      { name: 'b.txt', size: 6, contentType: 'text/plain' },
+    ])
+    expect(fs.readFileSync(path.join(root, files[0].storageKey), 'utf8')).toBe('hello')
+  })
+
+  it('rejects types that are not allowed and keeps none of the files', async () => {
+    const port = await listen()
+    const socket = send(port, part('file', 'a.txt', 'text/plain', 'hello') + part('file', 'b.html', 'text/html', '<p>') + `--${BOUNDARY}--\r\n`)
+
+    await expect(received()).rejects.toBeInstanceOf(UnsupportedMediaTypeError)
+    socket.destroy()
+    expect(storedFiles()).toEqual([])
+  })
+
+  it('cuts off files over the size limit', async () => {
+    const port = await listen({ maxFileSize: 10 })
+    const socket = send(port, part('file', 'a.txt', 'text/plain', 'x'.repeat(100)) + `--${BOUNDARY}--\r\n`)
+
+    await expect(received()).rejects.toBeInstanceOf(PayloadTooLargeError)
+    socket.destroy()
+    expect(storedFiles()).toEqual([])
+  })
+
+  it('fails and removes the partial file when the client disconnects mid-upload', async () => {
+    const port = await listen()
+    const socket = send(port, part('file', 'a.txt', 'text/plain', 'x'.repeat(5000)).slice(0, -2), 100_000)
+
+    const result = received()
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(storedFiles()).toHaveLength(1)
+
+    socket.destroy()
+
+    await expect(result).rejects.toThrow('The client aborted the upload')
+    expect(storedFiles()).toEqual([])
+  })
+})
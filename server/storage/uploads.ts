@@ -0,0 +1,194 @@
+/**
+ * Multipart Uploads
+ *
+ * Parses `multipart/form-data` requests with busboy and streams every file
+ * straight into a storage adapter, so uploads are never buffered in memory
+ * or written to a temporary directory first.
+ *
+ * Limits are enforced while streaming: a file over `maxFileSize` is cut off
+ * with a 413, a type outside `allowedTypes` is rejected with a 415. When any
+ * file fails, the files already stored for the request are deleted again.
+ * A client that disconnects mid-upload fails the request the same way, and
+ * the adapter removes the partially written object.
+ *
+ * The type is the one declared by the client for each part; serve stored
+ * files with `X-Content-Type-Options: nosniff` and never as HTML.
+ */
+
+import busboy from 'busboy'
+import type { Request } from 'express'
+import path from 'path'
+import { PassThrough } from 'stream'
+import { nanoid } from 'nanoid'
+import { config } from '../config.js'
+import { PayloadTooLargeError, UnsupportedMediaTypeError, ValidationError } from '../errors.js'
+import type { StorageAdapter } from './adapter.js'
+
+export interface UploadLimits {
+  /** Maximum size of a single file in bytes (default: `UPLOAD_MAX_FILE_SIZE`) */
+  maxFileSize: number
+  /** Maximum number of files per request (default: `UPLOAD_MAX_FILES`) */
+  maxFiles: number
+  /** Accepted MIME types, `image/*` matches every image type (default: `UPLOAD_ALLOWED_TYPES`) */
+  allowedTypes: readonly string[]
+}
+
+/**
+ * A file written to storage, ready to be recorded in the `files` table
+ */
+export interface ReceivedFile {
+  /** Form field the file was sent in */
+  field: string
+  storageKey: string
+  name: string
+  contentType: string
+  size: number
+}
+
+// Other form fields are ignored, but bounded so they cannot be abused
+const MAX_FIELDS = 20
+
+function isAllowedType(contentType: string, allowedTypes: readonly string[]) {
+  return allowedTypes.some((pattern) => pattern.endsWith('/*')
+    ? contentType.startsWith(pattern.slice(0, -1))
+    : contentType === pattern)
+}
+
+function storageKeyFor(filename: string) {
+  // Keep a sane extension so the object is recognizable in the bucket
+  const extension = path.extname(filename).toLowerCase()
+  return `uploads/${nanoid()}${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ''}`
+}
+
+/**
+ * Stream the files of a multipart request into storage
+ *
+ * @param req - Request with a `multipart/form-data` body that has not been read yet
+ * @param storage - Adapter the files are written to
+ * @param limits - Overrides for the configured upload limits
+ * @returns Every stored file, in the order they were sent
+ * @throws {UnsupportedMediaTypeError} When the request is not multipart or a file type is not allowed
+ * @throws {PayloadTooLargeError} When a file or the number of files exceeds the limits
+ * @throws {ValidationError} When the request contains no file
+ */
+export function receiveFiles(req: Request, storage: StorageAdapter, limits: Partial<UploadLimits> = {}) {
+  const { maxFileSize, maxFiles, allowedTypes } = { ...config.uploads, ...limits }
+
+  if (!req.is('multipart/form-data')) {
+    return Promise.reject(new UnsupportedMediaTypeError('Files must be sent as multipart/form-data'))
+  }
+
+  return new Promise<ReceivedFile[]>((resolve, reject) => {
+    const parser = busboy({
+      headers: req.headers,
+      defParamCharset: 'utf8',
+      limits: { fileSize: maxFileSize, files: maxFiles, fields: MAX_FIELDS },
+    })
+
+    const received: (ReceivedFile | undefined)[] = []
+    const writes: Promise<void>[] = []
+    // Bodies still being written, destroyed when the client goes away
+    const bodies = new Set<PassThrough>()
+    let failure: Error | undefined
+    let finished = false
+
+    const fail = (error: Error) => {
+      failure ??= error
+    }
+
+    // Runs once busboy closes, or on the first parse error
+    const finish = async () => {
+      if (finished) return
+      finished = true
+
+      await Promise.allSettled(writes)
+
+      if (!failure && received.length === 0) {
+        fail(new ValidationError('No file was uploaded'))
+      }
+
+      if (failure) {
+        await Promise.allSettled(received.map((file) => file && storage.delete(file.storageKey)))
+        reject(failure)
+        return
+      }
+
+      resolve(received as ReceivedFile[])
+    }
+
+    parser.on('file', (field, stream, { filename, mimeType }) => {
+      const name = filename || 'upload'
+
+      // Keep draining the request so busboy reaches the end and `finish` runs
+      if (failure) {
+        stream.resume()
+        return
+      }
+
+      if (!isAllowedType(mimeType, allowedTypes)) {
+        fail(new UnsupportedMediaTypeError(`${name}: ${mimeType} files are not accepted`))
+        stream.resume()
+        return
+      }
+
+      const index = received.push(undefined) - 1
+      const storageKey = storageKeyFor(name)
+      const body = new PassThrough()
+      let size = 0
+
+      bodies.add(body)
+      body.on('close', () => bodies.delete(body))
+
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length
+      })
+      stream.on('limit', () => {
+        const error = new PayloadTooLargeError(`${name} is larger than the ${maxFileSize} byte limit`)
+        fail(error)
+        stream.unpipe(body)
+        stream.resume()
+        body.destroy(error)
+      })
+      // The adapter may not be reading yet when the body is destroyed; it sees the error once it does
+      body.on('error', () => undefined)
+      stream.pipe(body)
+
+      writes.push(
+        storage.put(storageKey, body, { contentType: mimeType }).then(
+          () => {
+            received[index] = { field, storageKey, name, contentType: mimeType, size }
+          },
+          (error: Error) => {
+            fail(error)
+            // The adapter may have written part of the object before failing
+            return storage.delete(storageKey).catch(() => undefined)
+          }
+        )
+      )
+    })
+
+    parser.on('filesLimit', () => {
+      fail(new PayloadTooLargeError(`At most ${maxFiles} files can be uploaded at once`))
+    })
+    parser.on('error', (error: Error) => {
+      fail(error)
+      req.unpipe(parser)
+      req.resume()
+      void finish()
+    })
+    parser.on('close', () => void finish())
+
+    // Busboy never closes when the body stops arriving halfway
+    req.on('close', () => {
+      if (req.complete || finished) return
+
+      const error = new Error('The client aborted the upload')
+      fail(error)
+      req.unpipe(parser)
+      for (const body of bodies) body.destroy(error)
+      void finish()
+    })
+
+    req.pipe(parser)
+  })
+}
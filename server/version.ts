@@ -0,0 +1,43 @@
+/**
+ * Build Version Module
+ *
+ * Identifies the running build so clients can tell when a new one has been
+ * deployed (`GET /api/version`). The client build writes the same data to
+ * `dist/client/version.json` and embeds the version in the bundle as
+ * `__APP_VERSION__` (see `vite.config.ts`).
+ *
+ * In development there is no build; the version is always `development`.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { BuildInfo } from '../shared/api.js'
+import { config } from './config.js'
+import { logger } from './logger.js'
+
+const log = logger.child({ source: 'version' })
+
+const VERSION_FILE = path.resolve('dist/client/version.json')
+
+let buildInfo: BuildInfo | undefined
+
+function loadBuildInfo(): BuildInfo {
+  if (config.isDev) {
+    return { version: 'development', commit: null, builtAt: new Date().toISOString() }
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(VERSION_FILE, 'utf-8')) as BuildInfo
+  } catch (error) {
+    log.warn(`⚠️ Could not read ${VERSION_FILE}, clients will not be told about new versions`, { err: error })
+    return { version: 'unknown', commit: null, builtAt: new Date().toISOString() }
+  }
+}
+
+/**
+ * The build this process is serving, read once
+ */
+export function getBuildInfo() {
+  buildInfo ??= loadBuildInfo()
+  return buildInfo
+}
@@ -5,36 +5,107 @@
  * It handles development server with HMR and production static file serving.
  * 
  * Features:
- * - Development: Enhanced Vite dev server with custom logger and cache busting
- * - Production: Static file serving with SPA fallback
+ * - Development: Enhanced Vite dev server with cache busting
+ * - Logging: Vite output is routed through the structured application logger
+ * - Production: Static file serving with SPA fallback, long-lived caching for
+ *   fingerprinted assets and precompressed (brotli/gzip) delivery
+ * - SSR: with `SSR=true`, pages are rendered by `client/entry-server.tsx` (see `./ssr.ts`)
+ * - Security: the CSP nonce of each response is added to the page's scripts
  * - Error handling: Custom logger with process exit on critical errors
  * - Cache busting: Template versioning for reliable reloads
  * 
  * Note: This file is responsible for setting up the Vite server and should not be modified unless necessary.
  */
 
-import express, { type Express } from 'express'
+import type { Express, Request } from 'express'
 import fs from 'fs'
 import path from 'path'
-import { createServer as createViteServer, createLogger } from 'vite'
+import { createServer as createViteServer, type Logger as ViteLogger, type Rollup } from 'vite'
 import { type Server } from 'http'
 import { nanoid } from 'nanoid'
-import { fileURLToPath } from 'url'
+import { fileURLToPath, pathToFileURL } from 'url'
+import { config } from './config.js'
+import { onDrain } from './shutdown.js'
+import { logger } from './logger.js'
+import { injectNonce } from './middleware/security-headers.js'
+import { staticAssets } from './middleware/static-assets.js'
+import { SHELL_FILE, renderPage, type SsrEntry } from './ssr.js'
+
+type RollupError = Rollup.RollupError
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
-const viteLogger = createLogger()
+const log = logger.child({ source: 'express' })
 
-export function log(message: string, source = 'express') {
-  const formattedTime = new Date().toLocaleTimeString('en-US', {
-    hour: 'numeric',
-    minute: '2-digit',
-    second: '2-digit',
-    hour12: true,
-  })
+/**
+ * Whether the SPA fallback should answer with index.html
+ *
+ * Only browser navigations qualify; API calls, missing scripts or images and
+ * non-GET requests fall through to the 404 handler.
+ */
+function isHtmlNavigation(req: Request) {
+  return (req.method === 'GET' || req.method === 'HEAD') && (req.get('Accept') ?? '').includes('text/html')
+}
+
+// Vite colors its output; JSON logs should only contain plain text
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g
+
+/**
+ * Vite logger that writes through the application logger
+ *
+ * Keeps Vite's own bookkeeping (`hasWarned`, `warnOnce`, `hasErrorLogged`)
+ * so its HMR and build error handling keeps working.
+ */
+function createViteLogger(): ViteLogger {
+  const viteLog = logger.child({ source: 'vite' })
+  const warnedMessages = new Set<string>()
+  const loggedErrors = new WeakSet<Error | RollupError>()
+
+  const viteLogger: ViteLogger = {
+    hasWarned: false,
+    info(message) {
+      viteLog.info(message.replace(ANSI_PATTERN, '').trim())
+    },
+    warn(message) {
+      viteLogger.hasWarned = true
+      viteLog.warn(message.replace(ANSI_PATTERN, '').trim())
+    },
+    warnOnce(message) {
+      if (warnedMessages.has(message)) return
+      warnedMessages.add(message)
+      viteLogger.warn(message)
+    },
+    error(message, options) {
+      if (options?.error) loggedErrors.add(options.error)
+      viteLog.error(message.replace(ANSI_PATTERN, '').trim(), { err: options?.error })
+    },
+    clearScreen() {
+      // Clearing the terminal would wipe the server's own logs
+    },
+    hasErrorLogged(error) {
+      return loggedErrors.has(error)
+    },
+  }
+
+  return viteLogger
+}
+
+/**
+ * Find the pages written by `server/prerender.ts`, keyed by route path
+ */
+function findPrerenderedPages(distPath: string) {
+  const pages = new Map<string, string>()
+
+  for (const file of fs.readdirSync(distPath, { recursive: true, encoding: 'utf-8' })) {
+    if (path.basename(file) !== 'index.html') continue
+
+    const directory = path.dirname(file).split(path.sep).join('/')
+    const route = directory === '.' ? '/' : `/${directory}`
+    pages.set(route, fs.readFileSync(path.join(distPath, file), 'utf-8'))
+  }
 
-  console.log(`${formattedTime} [${source}] ${message}`)
+  return pages
 }
 
 /**
@@ -52,14 +123,23 @@ export async function setupVite(app: Express, server: Server) {
 
   const vite = await createViteServer({
     configFile: path.resolve(__dirname, '../vite.config.ts'),
-    customLogger: viteLogger,
+    customLogger: createViteLogger(),
     server: serverOptions,
     appType: 'custom',
   })
 
+  // Close the HMR websocket as soon as shutdown starts; the server cannot
+  // finish draining while a browser tab holds it open
+  onDrain('vite dev server', () => vite.close())
+
   app.use(vite.middlewares)
   
   app.use('*', async (req, res, next) => {
+    if (!isHtmlNavigation(req)) {
+      next()
+      return
+    }
+
     const url = req.originalUrl
 
     try {
@@ -70,11 +150,19 @@ export async function setupVite(app: Express, server: Server) {
       
       // Add cache busting to prevent stale module loading
       template = template.replace(
-        `src="/src/main.tsx"`,
-        `src="/src/main.tsx?v=${nanoid()}"`
+        `src="/client/main.tsx"`,
+        `src="/client/main.tsx?v=${nanoid()}"`
       )
       
-      const page = await vite.transformIndexHtml(url, template)
+      const page = injectNonce(await vite.transformIndexHtml(url, template), res.locals.cspNonce)
+
+      if (config.ssr) {
+        // Loaded per request so edits to the app are picked up without a restart
+        const entry = await vite.ssrLoadModule('/client/entry-server.tsx') as SsrEntry
+        renderPage(req, res, entry, page)
+        return
+      }
+
       res.status(200).set({ 'Content-Type': 'text/html' }).end(page)
     } catch (e) {
       vite.ssrFixStacktrace(e as Error)
@@ -82,16 +170,21 @@ export async function setupVite(app: Express, server: Server) {
     }
   })
 
-  log('⚡ Vite development server configured with HMR')
+  log.info('⚡ Vite development server configured with HMR')
 }
 
 /**
  * Setup static file serving for production
  * 
+ * Routes prerendered at build time are served from their own HTML file. Other
+ * routes get the client shell, or with SSR enabled are rendered by the server
+ * entry built to `dist/ssr/`.
+ * 
  * @param app - Express application instance
  */
-export function serveStatic(app: Express) {
-  const distPath = path.resolve(__dirname, '../dist/client')
+export async function serveStatic(app: Express) {
+  // Relative to the working directory: this file runs from `server/` (tsx) or `dist/server/` (node)
+  const distPath = path.resolve('dist/client')
 
   if (!fs.existsSync(distPath)) {
     throw new Error(
@@ -99,12 +192,38 @@ export function serveStatic(app: Express) {
     )
   }
 
-  app.use(express.static(distPath))
+  app.use(staticAssets(distPath))
+
+  const shellPath = path.resolve(distPath, SHELL_FILE)
+  const template = fs.readFileSync(fs.existsSync(shellPath) ? shellPath : path.resolve(distPath, 'index.html'), 'utf-8')
+  const prerendered = fs.existsSync(shellPath) ? findPrerenderedPages(distPath) : new Map<string, string>()
+  const ssrEntry = config.ssr
+    ? await import(pathToFileURL(path.resolve('dist/ssr/entry-server.js')).href) as SsrEntry
+    : undefined
+
+  // Fall through to index.html if the file doesn't exist (SPA routing).
+  // The page carries a per-request CSP nonce, so it is never reused from a cache.
+  app.use('*', (req, res, next) => {
+    if (!isHtmlNavigation(req)) {
+      next()
+      return
+    }
+
+    // `req.path` is relative to the `*` mount, so take the path from the original URL
+    const pathname = req.originalUrl.split('?')[0]
+    const route = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname
+    const page = injectNonce(prerendered.get(route) ?? template, res.locals.cspNonce)
+
+    if (ssrEntry && !prerendered.has(route)) {
+      renderPage(req, res, ssrEntry, page)
+      return
+    }
 
-  // Fall through to index.html if the file doesn't exist (SPA routing)
-  app.use('*', (_req, res) => {
-    res.sendFile(path.resolve(distPath, 'index.html'))
+    res
+      .status(200)
+      .set({ 'Content-Type': 'text/html', 'Cache-Control': 'no-cache' })
+      .end(page)
   })
 
-  log(`📁 Static files served from: ${distPath}`)
+  log.info(`📁 Static files served from: ${distPath}`, { prerendered: prerendered.size, ssr: Boolean(ssrEntry) })
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * Standalone Job Worker
+ *
+ * Runs background jobs in their own process, so slow jobs never compete
+ * with web requests for CPU. Start it with `npm run worker` (or
+ * `npm run dev:worker`) and set `JOBS_INLINE_WORKER=false` on the web
+ * servers. Run as many worker processes as needed; they share the queue.
+ *
+ * On SIGTERM/SIGINT the worker stops claiming jobs and exits once the
+ * running ones finish.
+ */
+
+import { connectDatabase, isDatabaseConfigured } from './db/index.js'
+import { startWorker } from './jobs/index.js'
+import { logger } from './logger.js'
+import { setupGracefulShutdown } from './shutdown.js'
+
+const log = logger.child({ source: 'worker' })
+
+async function main() {
+  if (!isDatabaseConfigured()) {
+    throw new Error('DATABASE_URL must be set to run the job worker')
+  }
+
+  await connectDatabase()
+  startWorker()
+
+  // No HTTP server to drain: shutdown stops the worker, then closes the pool
+  setupGracefulShutdown(undefined)
+}
+
+main().catch((error) => {
+  log.error('❌ Failed to start the job worker', { err: error })
+  process.exit(1)
+})
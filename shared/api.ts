@@ -0,0 +1,145 @@
+/**
+ * API contract for the application.
+ *
+ * Every JSON endpoint under `/api` is declared here. The server implements
+ * this contract in `server/routes/api.ts` and the client calls it through
+ * `api` from `client/lib/api.ts`. Changing a schema here breaks the
+ * typecheck of whichever side no longer matches.
+ *
+ * To add an endpoint, declare it below, implement the handler with the same
+ * key in `server/routes/api.ts`, and call it from the client as `api.<key>()`.
+ *
+ * @fileoverview Application API contract
+ */
+import { z } from 'zod';
+import { defineContract, defineEndpoint } from './contract.js';
+import { loginSchema, publicFileSchema, publicUserSchema, registerSchema } from './schema.js';
+
+export const healthCheckResultSchema = z.object({
+  status: z.enum(['pass', 'fail']),
+  critical: z.boolean(),
+  durationMs: z.number(),
+  details: z.unknown().optional(),
+  error: z.string().optional(),
+});
+
+export const healthReportSchema = z.object({
+  status: z.enum(['ok', 'degraded', 'fail']),
+  timestamp: z.string(),
+  checks: z.record(z.string(), healthCheckResultSchema),
+});
+
+/** Deployed build, stamped by the client build (`vite.config.ts`). */
+export const buildInfoSchema = z.object({
+  /** Changes with every build; `development` in dev mode */
+  version: z.string(),
+  /** Git commit the build was made from, when known */
+  commit: z.string().nullable(),
+  builtAt: z.string(),
+});
+
+export const contract = defineContract({
+  /** GET /api/health - Server status and basic system information */
+  health: defineEndpoint({
+    method: 'GET',
+    path: '/health',
+    response: z.object({
+      status: z.literal('ok'),
+      timestamp: z.string(),
+      env: z.string(),
+      uptime: z.number(),
+      memory: z.object({
+        rss: z.number(),
+        heapTotal: z.number(),
+        heapUsed: z.number(),
+        external: z.number(),
+        arrayBuffers: z.number(),
+      }),
+    }),
+  }),
+
+  /** GET /api/health/live - Liveness probe */
+  healthLive: defineEndpoint({
+    method: 'GET',
+    path: '/health/live',
+    response: z.object({
+      status: z.literal('ok'),
+      uptime: z.number(),
+    }),
+  }),
+
+  /** GET /api/health/ready - Readiness probe with per-check results */
+  healthReady: defineEndpoint({
+    method: 'GET',
+    path: '/health/ready',
+    response: healthReportSchema,
+  }),
+
+  /** GET /api/version - Build currently deployed, polled by clients to detect new releases */
+  version: defineEndpoint({
+    method: 'GET',
+    path: '/version',
+    response: buildInfoSchema,
+  }),
+
+  /** POST /api/auth/register - Create an account and start a session */
+  authRegister: defineEndpoint({
+    method: 'POST',
+    path: '/auth/register',
+    body: registerSchema,
+    response: publicUserSchema,
+  }),
+
+  /** POST /api/auth/login - Start a session */
+  authLogin: defineEndpoint({
+    method: 'POST',
+    path: '/auth/login',
+    body: loginSchema,
+    response: publicUserSchema,
+  }),
+
+  /** POST /api/auth/logout - End the current session */
+  authLogout: defineEndpoint({
+    method: 'POST',
+    path: '/auth/logout',
+    response: z.void(),
+  }),
+
+  /** GET /api/auth/me - The signed-in user, 401 when signed out */
+  authMe: defineEndpoint({
+    method: 'GET',
+    path: '/auth/me',
+    response: publicUserSchema,
+  }),
+
+  /** GET /api/files - Files uploaded by the signed-in user, newest first */
+  listFiles: defineEndpoint({
+    method: 'GET',
+    path: '/files',
+    response: z.array(publicFileSchema),
+  }),
+
+  /**
+   * POST /api/files - Upload files as `multipart/form-data`
+   *
+   * The body is streamed by the server rather than declared here; send it
+   * with `uploadFile` from `client/lib/upload.ts`, which reports progress.
+   */
+  uploadFiles: defineEndpoint({
+    method: 'POST',
+    path: '/files',
+    response: z.array(publicFileSchema),
+  }),
+
+  /** DELETE /api/files/:id - Delete one of the signed-in user's files */
+  deleteFile: defineEndpoint({
+    method: 'DELETE',
+    path: '/files/:id',
+    params: z.object({ id: z.coerce.number().int().positive() }),
+    response: z.void(),
+  }),
+});
+
+export type ApiContract = typeof contract;
+export type HealthReport = z.infer<typeof healthReportSchema>;
+export type BuildInfo = z.infer<typeof buildInfoSchema>;
@@ -0,0 +1,123 @@
+/**
+ * API contract primitives shared between the client and server applications.
+ *
+ * An endpoint is declared once with its method, path and zod schemas. The
+ * server mounts it with `implementContract` (see `server/contract.ts`) and the
+ * client calls it through the generated `api` object (see `client/lib/api.ts`),
+ * so both ends are type-checked against the same definition.
+ *
+ * Handlers return the schema's *input* type (what is sent over the wire) and
+ * the client receives the schema's *output* type after parsing the response,
+ * which lets response schemas coerce values such as dates.
+ *
+ * @fileoverview Typed API contract helpers
+ */
+import type { z } from 'zod';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Declaration of a single endpoint.
+ *
+ * `path` is relative to the `/api` prefix and uses Express syntax for
+ * parameters, e.g. `/users/:id`.
+ */
+export interface Endpoint<
+  TParams extends z.ZodType | undefined = z.ZodType | undefined,
+  TQuery extends z.ZodType | undefined = z.ZodType | undefined,
+  TBody extends z.ZodType | undefined = z.ZodType | undefined,
+  TResponse extends z.ZodType = z.ZodType,
+> {
+  method: HttpMethod;
+  path: string;
+  params?: TParams;
+  query?: TQuery;
+  body?: TBody;
+  response: TResponse;
+}
+
+/**
+ * A named collection of endpoints.
+ */
+export type Contract = Record<string, Endpoint>;
+
+type Part = 'params' | 'query' | 'body';
+
+// Resolves to the schema declared for a request part, or `never` when absent
+type SchemaOf<TEndpoint, TPart extends Part> = TEndpoint extends { [K in TPart]: infer TSchema extends z.ZodType }
+  ? TSchema
+  : never;
+
+type Parsed<TEndpoint, TPart extends Part> = [SchemaOf<TEndpoint, TPart>] extends [never]
+  ? undefined
+  : z.output<SchemaOf<TEndpoint, TPart>>;
+
+/**
+ * Validated request data received by a server handler.
+ */
+export interface EndpointRequest<TEndpoint extends Endpoint> {
+  params: Parsed<TEndpoint, 'params'>;
+  query: Parsed<TEndpoint, 'query'>;
+  body: Parsed<TEndpoint, 'body'>;
+}
+
+type Sent<TEndpoint, TPart extends Part> = z.input<SchemaOf<TEndpoint, TPart>>;
+
+// A part whose schema accepts an empty object does not have to be sent
+type IsOptional<TEndpoint, TPart extends Part> = Record<string, never> extends Sent<TEndpoint, TPart> ? true : false;
+
+type DeclaredParts<TEndpoint, TOptional extends boolean> = {
+  [K in Part]: [SchemaOf<TEndpoint, K>] extends [never]
+    ? never
+    : IsOptional<TEndpoint, K> extends TOptional ? K : never;
+}[Part];
+
+/**
+ * Arguments accepted by a client call. Parts without a schema are omitted,
+ * parts whose schema accepts an empty object are optional, and the whole
+ * argument is optional when nothing is required.
+ */
+export type EndpointInput<TEndpoint extends Endpoint> = {
+  [K in DeclaredParts<TEndpoint, false>]: Sent<TEndpoint, K>;
+} & {
+  [K in DeclaredParts<TEndpoint, true>]?: Sent<TEndpoint, K>;
+};
+
+/**
+ * Value a server handler must return (the wire format).
+ */
+export type EndpointResult<TEndpoint extends Endpoint> = z.input<TEndpoint['response']>;
+
+/**
+ * Value a client call resolves to (the parsed response).
+ */
+export type EndpointOutput<TEndpoint extends Endpoint> = z.output<TEndpoint['response']>;
+
+/**
+ * Declare an endpoint, preserving the exact schema types.
+ */
+export function defineEndpoint<const TEndpoint extends Endpoint>(endpoint: TEndpoint) {
+  return endpoint;
+}
+
+/**
+ * Declare a contract, preserving the exact endpoint types.
+ */
+export function defineContract<TContract extends Contract>(contract: TContract) {
+  return contract;
+}
+
+/**
+ * Build a concrete URL path by substituting `:name` segments.
+ *
+ * @example
+ * buildPath('/users/:id', { id: 42 }) // => '/users/42'
+ */
+export function buildPath(path: string, params: Record<string, unknown> = {}) {
+  return path.replace(/:(\w+)/g, (_segment, name: string) => {
+    if (params[name] === undefined) {
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(String(params[name]));
+  });
+}
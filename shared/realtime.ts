@@ -0,0 +1,35 @@
+/**
+ * Realtime protocol shared between the client and server applications.
+ *
+ * Clients subscribe to topics over a WebSocket at `REALTIME_PATH`, or over
+ * Server-Sent Events at `REALTIME_EVENTS_PATH` when WebSockets are not
+ * available. Both transports deliver the same `ServerMessage` JSON.
+ *
+ * Topics are strings such as `user:42` or `public:announcements`; the
+ * server decides per topic who may subscribe (see `server/realtime/topics.ts`).
+ *
+ * @fileoverview Realtime pub/sub protocol
+ */
+import { z } from 'zod';
+
+/** WebSocket endpoint, on the same server and port as the API. */
+export const REALTIME_PATH = '/api/realtime';
+
+/** Server-Sent Events fallback; topics are passed as repeated `topic` query parameters. */
+export const REALTIME_EVENTS_PATH = '/api/realtime/events';
+
+export const topicSchema = z.string().min(1).max(200).regex(/^[\w:.-]+$/, 'Topics may only contain letters, digits, _ : . and -');
+
+/** Messages a client sends over the WebSocket. */
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('subscribe'), topic: topicSchema }),
+  z.object({ type: z.literal('unsubscribe'), topic: topicSchema }),
+]);
+
+/** Messages the server sends over either transport. */
+export type ServerMessage =
+  | { type: 'subscribed'; topic: string }
+  | { type: 'message'; topic: string; payload: unknown }
+  | { type: 'error'; topic?: string; message: string };
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
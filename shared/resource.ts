@@ -0,0 +1,83 @@
+/**
+ * Query and response format of the generic CRUD resources created with
+ * `resource(table)` on the server (see `server/resource.ts`).
+ *
+ * List requests accept:
+ * - `page` (from 1) and `pageSize`
+ * - `sort`: comma-separated columns, `-` for descending, e.g. `-createdAt,name`
+ * - `fields`: comma-separated columns to return, e.g. `id,title`
+ * - `filter[column]=value` for equality, or `filter[column][operator]=value`
+ *   with one of `FILTER_OPERATORS`; `in` takes a comma-separated list
+ *
+ * @fileoverview Generic resource query format
+ */
+import { z } from 'zod';
+
+export const FILTER_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'in'] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+export type ResourceFilter = Record<string, string | number | boolean | Partial<Record<FilterOperator, string | number | boolean>>>;
+
+export interface ResourceListQuery {
+  page?: number;
+  pageSize?: number;
+  /** Columns to sort by, `-` prefixed for descending */
+  sort?: string[];
+  /** Columns to return; all visible columns when omitted */
+  fields?: string[];
+  filter?: ResourceFilter;
+}
+
+/** One page of a resource list. */
+export interface ResourcePage<T> {
+  data: T[];
+  page: number;
+  pageSize: number;
+  /** Rows matching the filter across all pages */
+  total: number;
+}
+
+/**
+ * Schema of a list response, for parsing it on the client.
+ *
+ * @example
+ * const page = resourcePageSchema(publicPostSchema).parse(await response.json());
+ */
+export function resourcePageSchema<TItem extends z.ZodType>(item: TItem) {
+  return z.object({
+    data: z.array(item),
+    page: z.number().int(),
+    pageSize: z.number().int(),
+    total: z.number().int(),
+  });
+}
+
+/**
+ * Serialize a list query into the search string a resource expects.
+ *
+ * @example
+ * buildResourceQuery({ page: 2, sort: ['-createdAt'], filter: { status: 'open', votes: { gte: 10 } } })
+ * // => '?page=2&sort=-createdAt&filter%5Bstatus%5D=open&filter%5Bvotes%5D%5Bgte%5D=10'
+ */
+export function buildResourceQuery({ page, pageSize, sort, fields, filter = {} }: ResourceListQuery) {
+  const search = new URLSearchParams();
+
+  if (page !== undefined) search.set('page', String(page));
+  if (pageSize !== undefined) search.set('pageSize', String(pageSize));
+  if (sort?.length) search.set('sort', sort.join(','));
+  if (fields?.length) search.set('fields', fields.join(','));
+
+  for (const [column, condition] of Object.entries(filter)) {
+    if (typeof condition === 'object') {
+      for (const [operator, value] of Object.entries(condition)) {
+        search.append(`filter[${column}][${operator}]`, String(value));
+      }
+    } else {
+      search.append(`filter[${column}]`, String(condition));
+    }
+  }
+
+  const serialized = search.toString();
+  return serialized ? `?${serialized}` : '';
+}
@@ -1,35 +1,169 @@
 /**
  * Database schema definitions using Drizzle ORM for PostgreSQL.
- * 
+ *
  * This file contains all table schemas that are shared between
  * the client and server applications.
- * 
+ *
  * @fileoverview Database schema definitions
  */
-import { pgTable, text, integer, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, text, integer, bigint, doublePrecision, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
 import { z } from 'zod';
-import { createInsertSchema } from 'drizzle-zod';
+import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
 
-/** 
+/**
  * Add your table schemas here.
- * 
- * For example, if you have a users table, you can define the schema like this:
- * 
- * export const users = pgTable('users', {
+ *
+ * Follow the pattern of the `users` table below: define the table, derive
+ * validation schemas with `createInsertSchema`, and export the inferred types.
+ *
+ * export const posts = pgTable('posts', {
  *   id: integer('id').primaryKey().generatedByDefaultAsIdentity(),
- *   name: text('name').notNull(),
- *   email: text('email').notNull().unique(),
- *   createdAt: timestamp('created_at').defaultNow(),
- *   updatedAt: timestamp('updated_at').defaultNow()
+ *   title: text('title').notNull(),
+ *   createdAt: timestamp('created_at').defaultNow()
  * });
- * 
- * export const insertUserSchema = createInsertSchema(users).pick({
- *   username: true,
- *   password: true,
+ *
+ * export const insertPostSchema = createInsertSchema(posts).pick({
+ *   title: true,
  * });
- * 
- * export type InsertUser = z.infer<typeof insertUserSchema>;
- * export type User = typeof users.$inferSelect;
- * 
- * Remove the example above and add your own table schemas here.
- */
\ No newline at end of file
+ *
+ * export type InsertPost = z.infer<typeof insertPostSchema>;
+ * export type Post = typeof posts.$inferSelect;
+ */
+
+/**
+ * Registered users.
+ *
+ * `passwordHash` holds a scrypt hash produced by `server/auth/password.ts`
+ * and must never be sent to the client; use `publicUserSchema` for responses.
+ */
+export const users = pgTable('users', {
+  id: integer('id').primaryKey().generatedByDefaultAsIdentity(),
+  name: text('name').notNull(),
+  email: text('email').notNull().unique(),
+  passwordHash: text('password_hash').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+});
+
+/**
+ * Login sessions backing the httpOnly session cookie.
+ *
+ * `id` is the SHA-256 hash of the cookie token, so a leaked database
+ * row cannot be replayed as a cookie.
+ */
+export const sessions = pgTable('sessions', {
+  id: text('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('sessions_user_id_idx').on(table.userId)
+]);
+
+/**
+ * Rate limit counters shared by all server instances.
+ *
+ * Only used with `RATE_LIMIT_STORE=postgres`; see `server/rate-limit/`.
+ * `value` and `timestampMs` hold the algorithm state, expired rows are
+ * pruned periodically.
+ */
+export const rateLimits = pgTable('rate_limits', {
+  key: text('key').primaryKey(),
+  value: doublePrecision('value').notNull(),
+  timestampMs: bigint('timestamp_ms', { mode: 'number' }).notNull(),
+  expiresAt: timestamp('expires_at').notNull()
+}, (table) => [
+  index('rate_limits_expires_at_idx').on(table.expiresAt)
+]);
+
+/**
+ * Uploaded files.
+ *
+ * The content lives in the storage backend selected by `STORAGE_DRIVER`
+ * (see `server/storage/`) under `storageKey`; this table records who
+ * uploaded it and its metadata.
+ */
+export const files = pgTable('files', {
+  id: integer('id').primaryKey().generatedByDefaultAsIdentity(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  storageKey: text('storage_key').notNull().unique(),
+  name: text('name').notNull(),
+  contentType: text('content_type').notNull(),
+  size: bigint('size', { mode: 'number' }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  index('files_user_id_idx').on(table.userId)
+]);
+
+/**
+ * Background jobs.
+ *
+ * Written by `enqueue` and claimed by workers with `FOR UPDATE SKIP LOCKED`
+ * (see `server/jobs/`). A job is `pending` until `runAt`, `running` while a
+ * worker holds it, and ends `completed` or, after its last failed attempt,
+ * `dead` (the dead-letter state) with the error in `lastError`.
+ *
+ * Timestamps carry a time zone because they are compared with the
+ * database's `now()` rather than the application clock.
+ */
+export const jobs = pgTable('jobs', {
+  id: bigint('id', { mode: 'number' }).primaryKey().generatedByDefaultAsIdentity(),
+  name: text('name').notNull(),
+  payload: jsonb('payload').notNull(),
+  status: text('status', { enum: ['pending', 'running', 'completed', 'dead'] }).notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull(),
+  runAt: timestamp('run_at', { withTimezone: true }).defaultNow().notNull(),
+  lockedAt: timestamp('locked_at', { withTimezone: true }),
+  lockedBy: text('locked_by'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  completedAt: timestamp('completed_at', { withTimezone: true })
+}, (table) => [
+  index('jobs_claim_idx').on(table.name, table.status, table.runAt)
+]);
+
+/** Email addresses are compared case-insensitively, so store them normalized. */
+const emailSchema = z.string().trim().toLowerCase().pipe(z.email('Enter a valid email address'));
+
+/** Payload accepted by `POST /api/auth/register`. */
+export const registerSchema = createInsertSchema(users, {
+  name: (schema) => schema.trim().min(1, 'Name is required'),
+  email: () => emailSchema
+}).pick({
+  name: true,
+  email: true,
+}).extend({
+  password: z.string().min(8, 'Password must be at least 8 characters').max(256)
+});
+
+/** Payload accepted by `POST /api/auth/login`. */
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, 'Password is required')
+});
+
+/** A user as exposed by the API, without the password hash. */
+export const publicUserSchema = createSelectSchema(users, {
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date()
+}).omit({
+  passwordHash: true,
+});
+
+/** An uploaded file as exposed by the API, without its storage location. */
+export const publicFileSchema = createSelectSchema(files, {
+  createdAt: z.coerce.date()
+}).omit({
+  storageKey: true,
+});
+
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type User = typeof users.$inferSelect;
+export type PublicUser = z.infer<typeof publicUserSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type StoredFile = typeof files.$inferSelect;
+export type PublicFile = z.infer<typeof publicFileSchema>;
+export type Job = typeof jobs.$inferSelect;
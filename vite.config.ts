@@ -1,27 +1,158 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import fs from 'fs'
+import zlib from 'zlib'
+import { execSync } from 'child_process'
 import { vitePluginErrorOverlay } from '@hiogawa/vite-plugin-error-overlay'
 
-export default defineConfig({
-  plugins: [
-    react(),
-    vitePluginErrorOverlay(),
-  ],
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './client'),
-    },
-  },
-  build: {
-    outDir: 'dist/client',
-    rollupOptions: {
-      input: './client/main.tsx',
-    },
-  },
-  server: {
-    host: '0.0.0.0',
-    allowedHosts: true,
-    middlewareMode: true,
-  },
-})
\ No newline at end of file
+/**
+ * Emit `client/index.html` as `index.html` at the root of the build output,
+ * where `serveStatic` expects it (Vite keeps the path relative to the root).
+ */
+function flattenIndexHtml(): Plugin {
+  return {
+    name: 'make:flatten-index-html',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const html = bundle['client/index.html']
+      if (html) {
+        html.fileName = 'index.html'
+      }
+    },
+  }
+}
+
+// HTML is excluded: the server injects a CSP nonce into it on every request
+const COMPRESSIBLE = /\.(js|mjs|css|svg|json|txt|xml|wasm)$/
+
+/**
+ * Write `.br` and `.gz` variants next to every compressible asset, so the
+ * production server can serve them by content negotiation without
+ * compressing on the fly. Files under 1 KiB are left alone.
+ */
+function precompress(): Plugin {
+  let outDir = ''
+  let isSsrBuild = false
+
+  return {
+    name: 'make:precompress',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir)
+      isSsrBuild = Boolean(config.build.ssr)
+    },
+    writeBundle(_options, bundle) {
+      // The server entry (`--ssr`) is loaded from disk, never sent to browsers
+      if (isSsrBuild) return
+
+      for (const fileName of Object.keys(bundle)) {
+        if (!COMPRESSIBLE.test(fileName)) continue
+
+        const filePath = path.join(outDir, fileName)
+        const source = fs.readFileSync(filePath)
+        if (source.length < 1024) continue
+
+        fs.writeFileSync(`${filePath}.br`, zlib.brotliCompressSync(source, {
+          params: { [zlib.constants.BROTLI_PARAM_QUALITY]: zlib.constants.BROTLI_MAX_QUALITY },
+        }))
+        fs.writeFileSync(`${filePath}.gz`, zlib.gzipSync(source, { level: zlib.constants.Z_BEST_COMPRESSION }))
+      }
+    },
+  }
+}
+
+interface BuildInfo {
+  version: string
+  commit: string | null
+  builtAt: string
+}
+
+const VERSION_FILE = 'version.json'
+
+/**
+ * Stamp for the build being made: the git commit plus the build time, so
+ * rebuilding the same commit still yields a new version.
+ *
+ * The SSR build runs after the client build and reuses its stamp, so both
+ * bundles report the same version.
+ */
+function resolveBuildInfo(command: 'build' | 'serve', isSsrBuild: boolean): BuildInfo {
+  const builtAt = new Date()
+
+  if (command === 'serve') {
+    return { version: 'development', commit: null, builtAt: builtAt.toISOString() }
+  }
+
+  const clientVersionFile = path.resolve(__dirname, 'dist/client', VERSION_FILE)
+  if (isSsrBuild && fs.existsSync(clientVersionFile)) {
+    return JSON.parse(fs.readFileSync(clientVersionFile, 'utf-8')) as BuildInfo
+  }
+
+  let commit: string | null = null
+  try {
+    commit = execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim()
+  } catch {
+    // Not a git checkout (e.g. a source archive); the build time still identifies the build
+  }
+
+  const timestamp = builtAt.toISOString().replace(/[-:]|\.\d+/g, '')
+  return {
+    version: commit ? `${commit}-${timestamp}` : timestamp,
+    commit,
+    builtAt: builtAt.toISOString(),
+  }
+}
+
+/**
+ * Write the build stamp to `version.json`, read by `server/version.ts` to
+ * answer `GET /api/version`.
+ */
+function emitVersionFile(buildInfo: BuildInfo): Plugin {
+  return {
+    name: 'make:version-file',
+    apply: (_config, { command, isSsrBuild }) => command === 'build' && !isSsrBuild,
+    generateBundle() {
+      this.emitFile({
+        type: 'asset',
+        fileName: VERSION_FILE,
+        source: JSON.stringify(buildInfo, null, 2),
+      })
+    },
+  }
+}
+
+export default defineConfig(({ command, isSsrBuild = false }) => {
+  const buildInfo = resolveBuildInfo(command, isSsrBuild)
+
+  return {
+    plugins: [
+      react(),
+      vitePluginErrorOverlay(),
+      flattenIndexHtml(),
+      precompress(),
+      emitVersionFile(buildInfo),
+    ],
+    define: {
+      // Compared with `GET /api/version` by `client/components/version/version-watcher.tsx`
+      __APP_VERSION__: JSON.stringify(buildInfo.version),
+    },
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, './client'),
+      },
+    },
+    build: {
+      outDir: 'dist/client',
+      rollupOptions: {
+        input: path.resolve(__dirname, 'client/index.html'),
+      },
+    },
+    server: {
+      host: '0.0.0.0',
+      allowedHosts: true,
+      middlewareMode: true,
+    },
+  }
+})
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+/**
+ * Unit tests live next to the module they cover as `*.test.ts`. Kept apart
+ * from `vite.config.ts` so test runs skip the build plugins.
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, 'client'),
+    },
+  },
+  test: {
+    include: ['{client,server,shared}/**/*.test.ts'],
+    environment: 'node',
+  },
+})